@@ -0,0 +1,66 @@
+import { ErrorObject } from '@smbcheeky/error-object';
+import { createErrorObjectParser, ErrorObjectFromPayload } from '@smbcheeky/error-object-from-payload';
+
+/*
+ *
+ * Compares `new ErrorObjectFromPayload(payload, options)` with a parser created once by `createErrorObjectParser()`.
+ * Run it with `npm run benchmark` after `npm run build`.
+ *
+ */
+
+ErrorObjectFromPayload.SHOW_ERROR_LOGS = false;
+ErrorObject.LOG_METHOD = null;
+
+const ITERATIONS = 50_000;
+const WARMUP_ITERATIONS = 5_000;
+
+const measure = (name: string, run: () => void) => {
+  for (let i = 0; i < WARMUP_ITERATIONS; i++) {
+    run();
+  }
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) {
+    run();
+  }
+  const duration = performance.now() - start;
+  const opsPerSecond = Math.round((ITERATIONS / duration) * 1000);
+  console.log(`${name.padEnd(40)} ${duration.toFixed(0).padStart(6)} ms ${opsPerSecond.toString().padStart(10)} ops/s`);
+  return duration;
+};
+
+const runBenchmark = (name: string, payload: any, options: Parameters<typeof createErrorObjectParser>[0]) => {
+  console.log(`\n-${name}${'-'.repeat(Math.max(0, 90 - name.length))}\n`);
+
+  const parser = createErrorObjectParser(options);
+  const expected = JSON.stringify(new ErrorObjectFromPayload(payload, options));
+  if (JSON.stringify(parser.parse(payload)) !== expected) {
+    throw new Error(`Parser output differs from the constructor output for "${name}"`);
+  }
+
+  const constructorDuration = measure(
+    'new ErrorObjectFromPayload()',
+    () => new ErrorObjectFromPayload(payload, options),
+  );
+  const parserDuration = measure('createErrorObjectParser().parse()', () => parser.parse(payload));
+  console.log(`\nSpeedup: ${(constructorDuration / parserDuration).toFixed(2)}x`);
+};
+
+runBenchmark('Default options, single error', { error: { code: 'auth/invalid-email', message: 'Invalid email.' } }, {});
+
+runBenchmark(
+  'GraphQL errors array',
+  {
+    errors: [
+      { message: 'Cannot query field "username"', extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } },
+      { message: 'Cannot query field "email"', extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } },
+    ],
+    data: null,
+  },
+  { pathToCode: ['extensions.code'], pathToMessage: ['message'], pathToDetails: ['locations'] },
+);
+
+runBenchmark(
+  'Fallback (nothing found)',
+  { status: 'error', data: { reason: 'unknown' } },
+  { pathToCode: ['data.code', 'data.error.code'], pathToMessage: ['data.message', 'data.error.message'] },
+);
@@ -1,5 +1,10 @@
 import { ErrorObject } from '@smbcheeky/error-object';
-import { addPrefixPathVariants, ErrorObjectTransformState, ErrorObjectFromPayload } from '@smbcheeky/error-object-from-payload';
+import {
+  addPrefixPathVariants,
+  ErrorObjectTransformState,
+  ErrorObjectFromPayload,
+  GRAPHQL_BUILD_OPTIONS,
+} from '@smbcheeky/error-object-from-payload';
 
 ErrorObject.INCLUDE_DOMAIN_IN_STRING = true;
 
@@ -117,6 +122,28 @@ const runStoryExample = () => {
   //   "details": "[{\"line\":5,\"column\":6}]",
   //   "raw": { ... }
   // }
+
+  // 9. A few months later, `GRAPHQL_BUILD_OPTIONS` does all of the above, keeps `path` and `locations` as fields and
+  //    tells us if the response had partial data, so we can show the data with a warning instead of failing.
+  const partialError = new ErrorObjectFromPayload(
+    {
+      errors: [
+        {
+          message: 'Name for character with ID 1002 could not be fetched.',
+          locations: [{ line: 6, column: 7 }],
+          path: ['hero', 'heroFriends', 1, 'name'],
+        },
+      ],
+      data: { hero: { name: 'R2-D2', heroFriends: [{ name: 'Luke Skywalker' }, null] } },
+    },
+    GRAPHQL_BUILD_OPTIONS,
+  );
+  partialError.log('GQL');
+  console.log(partialError.fields?.isPartial, partialError.fields?.path);
+
+  // Preset output:
+  // [GQL] Name for character with ID 1002 could not be fetched. [unknown]
+  // true [ 'hero', 'heroFriends', 1, 'name' ]
 };
 
 const runSanityChecks = () => {
@@ -476,8 +503,28 @@ const runExample5 = () => {
     })
     .debugLog('3'); // .verboseLog('LOG');
 
-  // I could probably make this easier on you, but this is where the end of the library lies.
-  // When dynamic fields are involved, it is your job to decide how to handle them.
+  // Want every failing field? Use the `all` strategy to get one error per message, chained using `nextErrors`,
+  // or the `join` strategy to get a single message. `data.*` also picks up fields you didn't know about.
+  new ErrorObjectFromPayload(
+    {
+      status: 'error',
+      message: 'Validation failed',
+      data: {
+        username: 'Username is required',
+        email: 'Email is required',
+        password: 'Password is required',
+        confirmPassword: 'Confirm password is required',
+      },
+    },
+    {
+      pathToCode: ['message'],
+      pathToMessage: ['data.*'],
+      fieldOptions: { message: { strategy: 'all' } },
+      checkInputObjectForValues: { status: { value: 'error', exists: true } },
+    },
+  ).log('4');
+
+  // When dynamic fields are involved, it is still your job to decide how to handle them.
   // This library won't do black magic, by design, but it can hide a lot of things in plain sight :)
 
   // Example 5 output:
@@ -487,6 +534,10 @@ const runExample5 = () => {
   // [DEBUG] { "code": "Validation failed", "message": "Username is required", "raw": { ... } }
   // [3] Username is required [Validation failed]
   // [DEBUG] { "code": "Validation failed", "message": "Username is required", "raw": { ... } }
+  // [4][1] Username is required [Validation failed]
+  // [4][2] Email is required [Validation failed]
+  // [4][3] Password is required [Validation failed]
+  // [4][4] Confirm password is required [Validation failed]
 };
 
 const runExample6 = () => {
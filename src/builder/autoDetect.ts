@@ -0,0 +1,203 @@
+import { ErrorObjectAutoDetectCandidate, ErrorObjectAutoDetectReport } from '../utils';
+import { formatPath, PathSegment } from './paths';
+
+type AutoDetectField = keyof ErrorObjectAutoDetectReport;
+
+type AutoDetectNode = {
+  value: any;
+  key: string | undefined;
+  segments: PathSegment[];
+};
+
+const MAX_DEPTH = 4;
+const MAX_NODES = 250;
+const MAX_CANDIDATES = 5;
+const MIN_SCORE = 0.3;
+
+/**
+ * Key names commonly used by APIs for each field, normalized (lowercase, without `_`, `-` and spaces) and weighted by
+ * how likely they are to contain the field.
+ */
+const KEY_NAMES: Record<AutoDetectField, Record<string, number>> = {
+  code: {
+    code: 1,
+    errorcode: 1,
+    errcode: 0.9,
+    errortype: 0.8,
+    type: 0.6,
+    reason: 0.6,
+    kind: 0.5,
+    error: 0.5,
+    status: 0.4,
+    key: 0.4,
+  },
+  message: {
+    message: 1,
+    errormessage: 1,
+    msg: 0.9,
+    errormsg: 0.9,
+    errordescription: 0.9,
+    description: 0.8,
+    title: 0.6,
+    detail: 0.6,
+    error: 0.6,
+    reason: 0.5,
+    text: 0.5,
+  },
+  details: {
+    details: 1,
+    detail: 0.9,
+    context: 0.6,
+    info: 0.6,
+    locations: 0.6,
+    errors: 0.6,
+    stack: 0.6,
+    data: 0.5,
+    meta: 0.5,
+    extra: 0.5,
+  },
+  domain: {
+    domain: 1,
+    namespace: 0.7,
+    service: 0.7,
+    category: 0.7,
+    source: 0.6,
+    scope: 0.6,
+    module: 0.6,
+    realm: 0.6,
+  },
+};
+
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[\s_-]/g, '');
+
+/**
+ * Exact key names get their full weight, key names containing a known name (e.g. `authErrorCode`) get a part of it.
+ */
+const scoreKey = (key: string, field: AutoDetectField): number => {
+  const normalized = normalizeKey(key);
+  let score = 0;
+  for (const [name, weight] of Object.entries(KEY_NAMES[field])) {
+    if (normalized === name) {
+      score = Math.max(score, weight);
+    } else if (name.length > 3 && normalized.includes(name)) {
+      score = Math.max(score, weight * 0.6);
+    }
+  }
+  return score;
+};
+
+/**
+ * Codes and domains are short identifiers, messages are sentences and details can be anything.
+ */
+const scoreValue = (value: any, field: AutoDetectField): number => {
+  if (field === 'details') {
+    if (typeof value === 'object' && value !== null) {
+      return 1;
+    }
+    return typeof value === 'string' && value.length > 0 ? 0.7 : 0;
+  }
+  if (typeof value === 'number') {
+    return field === 'code' ? 0.5 : 0;
+  }
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return 0;
+  }
+  const hasSpaces = /\s/.test(value.trim());
+  if (field === 'message') {
+    if (value.length > 1000) {
+      return 0.3;
+    }
+    return hasSpaces ? 1 : 0.5;
+  }
+  if (value.length > 64) {
+    return 0.1;
+  }
+  return hasSpaces ? 0.4 : 1;
+};
+
+const scoreNode = (node: AutoDetectNode, field: AutoDetectField): number => {
+  if (node.key === undefined) {
+    return 0;
+  }
+  const keyScore = scoreKey(node.key, field);
+  const valueScore = scoreValue(node.value, field);
+  if (keyScore === 0 || valueScore === 0) {
+    return 0;
+  }
+  const depthFactor = 1 / (1 + 0.2 * (node.segments.length - 1));
+  return Math.round((keyScore * 0.6 + valueScore * 0.4) * depthFactor * 100) / 100;
+};
+
+/**
+ * Lists the nodes of the payload in breadth-first order, up to `MAX_NODES`. The budget is checked for every node, and
+ * nodes past it are never queued, so a single wide object can't make the walk visit more.
+ */
+const nodesOf = (value: any): AutoDetectNode[] => {
+  const nodes: AutoDetectNode[] = [];
+  const visited = new Set<any>([value]);
+  // The root is queued too, but is not a node
+  const queue: AutoDetectNode[] = [{ value, key: undefined, segments: [] }];
+  const enqueue = (node: AutoDetectNode): boolean => {
+    if (queue.length > MAX_NODES) {
+      return false;
+    }
+    queue.push(node);
+    return true;
+  };
+  for (let index = 0; index < queue.length && nodes.length < MAX_NODES; index++) {
+    const node = queue[index] as AutoDetectNode;
+    if (node.segments.length > 0) {
+      nodes.push(node);
+    }
+    if (
+      node.segments.length >= MAX_DEPTH ||
+      node.value === null ||
+      typeof node.value !== 'object' ||
+      (node.segments.length > 0 && visited.has(node.value))
+    ) {
+      continue;
+    }
+    visited.add(node.value);
+    if (Array.isArray(node.value)) {
+      for (let childIndex = 0; childIndex < node.value.length; childIndex++) {
+        const segments = [...node.segments, { type: 'index' as const, index: childIndex }];
+        if (!enqueue({ value: node.value[childIndex], key: undefined, segments })) {
+          break;
+        }
+      }
+    } else {
+      for (const key in node.value) {
+        if (!Object.prototype.hasOwnProperty.call(node.value, key)) {
+          continue;
+        }
+        const segments = [...node.segments, { type: 'key' as const, key }];
+        if (!enqueue({ value: node.value[key], key, segments })) {
+          break;
+        }
+      }
+    }
+  }
+  return nodes;
+};
+
+/**
+ * Walks the payload and scores every key as a candidate for code, message, details and domain, by key name, value
+ * type, value length and nesting. Returns the best candidates for each field, highest score first.
+ */
+export const detectCandidates = (objectToParse: any): ErrorObjectAutoDetectReport => {
+  const nodes = nodesOf(objectToParse);
+  const report: ErrorObjectAutoDetectReport = {};
+  for (const field of ['code', 'message', 'details', 'domain'] as const) {
+    const candidates: ErrorObjectAutoDetectCandidate[] = [];
+    for (const node of nodes) {
+      const score = scoreNode(node, field);
+      if (score >= MIN_SCORE) {
+        candidates.push({ path: formatPath(node.segments), score });
+      }
+    }
+    if (candidates.length > 0) {
+      report[field] = candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES);
+    }
+  }
+  return report;
+};
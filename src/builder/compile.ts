@@ -0,0 +1,400 @@
+import {
+  ErrorObjectBuildOptions,
+  ErrorObjectCoercion,
+  ErrorObjectErrorResult,
+  ErrorObjectFieldOptions,
+  ErrorObjectFieldOptionsMap,
+  ErrorObjectFieldStrategy,
+  ErrorObjectTransformState,
+  ErrorObjectValueMode,
+} from '../utils';
+import { compileGuard, CompiledGuard } from './guard';
+import { findPathMatches, parsePath, PathMatch, PathSegment, PathSkip } from './paths';
+import { compileSchema, CompiledSchema } from './schema';
+import { BUILT_IN_STRING_DECODERS, CompiledStringDecoder, DEFAULT_STRING_DECODERS } from './stringDecoders';
+
+/**
+ * A path from the build options, parsed once so it can be resolved against many payloads.
+ * Malformed paths are kept with `segments: undefined` and never match anything.
+ */
+export type CompiledPath = {
+  path: string;
+  segments: PathSegment[] | undefined;
+};
+
+/**
+ * The widest version of {@link ErrorObjectBuildOptions}, used internally where the field names and modes are unknown.
+ */
+export type AnyBuildOptions = ErrorObjectBuildOptions<string, ErrorObjectFieldOptionsMap>;
+export type AnyTransformState = ErrorObjectTransformState<string, ErrorObjectFieldOptionsMap>;
+
+/**
+ * The options of a single field after validation, with the defaults applied.
+ */
+export type CompiledFieldOptions = {
+  mode: ErrorObjectValueMode;
+  coerce: ErrorObjectCoercion | undefined;
+  strategy: ErrorObjectFieldStrategy;
+  separator: string;
+};
+
+/**
+ * The {@link ErrorObjectBuildOptions} after validation, with every `pathTo*` array compiled.
+ */
+export type CompiledBuildOptions = {
+  options: AnyBuildOptions;
+  guard: CompiledGuard | undefined;
+  elementGuard: CompiledGuard | undefined;
+  /**
+   * Whether the elements rejected by `elementGuard` are built as warnings, instead of being skipped.
+   */
+  rejectedElementsAsWarnings: boolean;
+  schema: CompiledSchema | undefined;
+  pathToErrors: CompiledPath[] | undefined;
+  pathToCode: CompiledPath[];
+  pathToNumberCode: CompiledPath[];
+  pathToMessage: CompiledPath[];
+  pathToDetails: CompiledPath[];
+  pathToDomain: CompiledPath[];
+  pathToFields: Record<string, CompiledPath[]> | undefined;
+  /**
+   * How many levels of nested errors arrays to look for, `0` when the `nestedErrors` option is not enabled.
+   */
+  maxNestedDepth: number;
+  stringDecoders: CompiledStringDecoder[];
+  maxMessageLength: number | undefined;
+  fieldOptions: {
+    code: CompiledFieldOptions;
+    numberCode: CompiledFieldOptions;
+    message: CompiledFieldOptions;
+    details: CompiledFieldOptions;
+    domain: CompiledFieldOptions;
+    fields: Record<string, CompiledFieldOptions>;
+  };
+  /**
+   * The `$response` and `$headers` path variables, only set while parsing a response using `fromResponse()`.
+   */
+  responseVariables: Record<string, any> | undefined;
+};
+
+const VALUE_MODES: ErrorObjectValueMode[] = ['string', 'raw', 'stringify'];
+
+const DEFAULT_MAX_NESTED_DEPTH = 3;
+
+const FIELD_STRATEGIES: ErrorObjectFieldStrategy[] = ['first', 'all', 'join'];
+
+export const DEFAULT_FIELD_OPTIONS: CompiledFieldOptions = {
+  mode: 'stringify',
+  coerce: undefined,
+  strategy: 'first',
+  separator: ', ',
+};
+
+const compileFieldOptions = (
+  fieldOption: ErrorObjectFieldOptions | undefined,
+  allowsRaw: boolean,
+  allowsJoin: boolean,
+): CompiledFieldOptions | ErrorObjectErrorResult => {
+  if (fieldOption === undefined) {
+    return DEFAULT_FIELD_OPTIONS;
+  }
+  if (fieldOption === null || typeof fieldOption !== 'object') {
+    return 'fieldOptionsIsNotAnObject';
+  }
+  const { mode = 'stringify', coerce, strategy = 'first', separator = ', ' } = fieldOption;
+  if (!VALUE_MODES.includes(mode) || (mode === 'raw' && !allowsRaw)) {
+    return 'fieldOptionsModeIsInvalid';
+  }
+  if (coerce !== undefined && (coerce === null || typeof coerce !== 'object')) {
+    return 'fieldOptionsCoerceIsNotAnObject';
+  }
+  if (!FIELD_STRATEGIES.includes(strategy) || (strategy === 'join' && (!allowsJoin || mode === 'raw'))) {
+    return 'fieldOptionsStrategyIsInvalid';
+  }
+  if (typeof separator !== 'string') {
+    return 'fieldOptionsSeparatorIsNotAString';
+  }
+  return { mode, coerce, strategy, separator };
+};
+
+export const compilePath = (path: string): CompiledPath => {
+  const segments = path ? parsePath(path) : undefined;
+  return { path, segments: segments !== undefined && segments.length > 0 ? segments : undefined };
+};
+
+let pathVariables: Record<string, any> | undefined;
+
+/**
+ * Runs the function with variables that can be addressed by paths starting with their name, e.g. `$response.status`
+ * or `$headers.retry-after`, no matter which object the path is resolved against.
+ */
+export const withPathVariables = <T>(variables: Record<string, any>, run: () => T): T => {
+  const previousPathVariables = pathVariables;
+  pathVariables = { ...previousPathVariables, ...variables };
+  try {
+    return run();
+  } finally {
+    pathVariables = previousPathVariables;
+  }
+};
+
+export const findCompiledPathMatches = (value: any, compiledPath: CompiledPath, skipped?: PathSkip[]): PathMatch[] => {
+  if (compiledPath.segments === undefined) {
+    return [];
+  }
+  const [firstSegment] = compiledPath.segments;
+  if (firstSegment?.type === 'key' && pathVariables !== undefined && firstSegment.key in pathVariables) {
+    const variables = { [firstSegment.key]: pathVariables[firstSegment.key] };
+    return findPathMatches(variables, compiledPath.segments, compiledPath.path, skipped);
+  }
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return findPathMatches(value, compiledPath.segments, compiledPath.path, skipped);
+};
+
+/**
+ * Validates the options and compiles all `pathTo*` arrays. The validation is the same one done while processing a
+ * payload, so invalid options are reported with the same {@link ErrorObjectErrorResult} codes.
+ */
+export const compileBuildOptions = (options: AnyBuildOptions): CompiledBuildOptions | ErrorObjectErrorResult => {
+  let guard: CompiledGuard | undefined;
+  if ('guard' in options && options.guard !== undefined) {
+    guard = compileGuard(options.guard);
+    if (guard === undefined) {
+      return 'guardIsInvalid';
+    }
+  }
+
+  let elementGuard: CompiledGuard | undefined;
+  if ('elementGuard' in options && options.elementGuard !== undefined) {
+    elementGuard = compileGuard(options.elementGuard);
+    if (elementGuard === undefined) {
+      return 'elementGuardIsInvalid';
+    }
+  }
+
+  let schema: CompiledSchema | undefined;
+  if ('schema' in options && options.schema !== undefined) {
+    schema = compileSchema(options.schema);
+    if (schema === undefined) {
+      return 'schemaIsInvalid';
+    }
+  }
+
+  const { rejectedElements } = options;
+  if (rejectedElements !== undefined && rejectedElements !== 'skip' && rejectedElements !== 'warnings') {
+    return 'rejectedElementsIsInvalid';
+  }
+
+  let pathToErrors: CompiledPath[] | undefined;
+  if ('pathToErrors' in options) {
+    if (!Array.isArray(options.pathToErrors)) {
+      return 'pathToErrorsIsNotAnArray';
+    }
+    if (options.pathToErrors.some((path) => typeof path !== 'string')) {
+      return 'pathToErrorsValuesAreNotStrings';
+    }
+    pathToErrors = options.pathToErrors.map(compilePath);
+  }
+
+  if (!('pathToCode' in options)) {
+    return 'pathToCodeIsInvalid';
+  }
+  if (!Array.isArray(options.pathToCode)) {
+    return 'pathToCodeIsNotAnArray';
+  }
+  if (options.pathToCode.some((path) => typeof path !== 'string')) {
+    return 'pathToCodeValuesAreNotStrings';
+  }
+
+  if (!('pathToNumberCode' in options)) {
+    return 'pathToNumberCodeIsInvalid';
+  }
+  if (!Array.isArray(options.pathToNumberCode)) {
+    return 'pathToNumberCodeIsNotAnArray';
+  }
+  if (options.pathToNumberCode.some((path) => typeof path !== 'string')) {
+    return 'pathToNumberCodeValuesAreNotStrings';
+  }
+
+  if (!('pathToMessage' in options)) {
+    return 'pathToMessageIsInvalid';
+  }
+  if (!Array.isArray(options.pathToMessage)) {
+    return 'pathToMessageIsNotAnArray';
+  }
+  if (options.pathToMessage.some((path) => typeof path !== 'string')) {
+    return 'pathToMessageValuesAreNotStrings';
+  }
+
+  if (!('pathToDetails' in options)) {
+    return 'pathToDetailsIsInvalid';
+  }
+  if (!Array.isArray(options.pathToDetails)) {
+    return 'pathToDetailsIsNotAnArray';
+  }
+  if (options.pathToDetails.some((path) => typeof path !== 'string')) {
+    return 'pathToDetailsValuesAreNotStrings';
+  }
+
+  if (!('pathToDomain' in options)) {
+    return 'pathToDomainIsInvalid';
+  }
+  if (!Array.isArray(options.pathToDomain)) {
+    return 'pathToDomainIsNotAnArray';
+  }
+  if (options.pathToDomain.some((path) => typeof path !== 'string')) {
+    return 'pathToDomainValuesAreNotStrings';
+  }
+
+  let pathToFields: Record<string, CompiledPath[]> | undefined;
+  if ('pathToFields' in options && options.pathToFields !== undefined) {
+    if (
+      options.pathToFields === null ||
+      typeof options.pathToFields !== 'object' ||
+      Array.isArray(options.pathToFields)
+    ) {
+      return 'pathToFieldsIsNotAnObject';
+    }
+    pathToFields = {};
+    for (const [field, paths] of Object.entries(options.pathToFields)) {
+      if (!Array.isArray(paths)) {
+        return 'pathToFieldsValuesAreNotArrays';
+      }
+      if (paths.some((path) => typeof path !== 'string')) {
+        return 'pathToFieldsValuesAreNotStrings';
+      }
+      pathToFields[field] = paths.map(compilePath);
+    }
+  }
+
+  const compiledFieldOptions: CompiledBuildOptions['fieldOptions'] = {
+    code: DEFAULT_FIELD_OPTIONS,
+    numberCode: DEFAULT_FIELD_OPTIONS,
+    message: DEFAULT_FIELD_OPTIONS,
+    details: DEFAULT_FIELD_OPTIONS,
+    domain: DEFAULT_FIELD_OPTIONS,
+    fields: {},
+  };
+  if ('fieldOptions' in options && options.fieldOptions !== undefined) {
+    const { fieldOptions } = options;
+    if (fieldOptions === null || typeof fieldOptions !== 'object') {
+      return 'fieldOptionsIsNotAnObject';
+    }
+    for (const field of ['code', 'numberCode', 'message', 'details', 'domain'] as const) {
+      const compiledFieldOption = compileFieldOptions(fieldOptions[field], field === 'details', field !== 'numberCode');
+      if (typeof compiledFieldOption === 'string') {
+        return compiledFieldOption;
+      }
+      compiledFieldOptions[field] = compiledFieldOption;
+    }
+    if (fieldOptions.fields !== undefined) {
+      if (fieldOptions.fields === null || typeof fieldOptions.fields !== 'object') {
+        return 'fieldOptionsIsNotAnObject';
+      }
+      for (const [field, fieldOption] of Object.entries(fieldOptions.fields)) {
+        const compiledFieldOption = compileFieldOptions(fieldOption, true, true);
+        if (typeof compiledFieldOption === 'string') {
+          return compiledFieldOption;
+        }
+        compiledFieldOptions.fields[field] = compiledFieldOption;
+      }
+    }
+  }
+
+  const allStrategyFields = [
+    compiledFieldOptions.code,
+    compiledFieldOptions.numberCode,
+    compiledFieldOptions.message,
+    compiledFieldOptions.details,
+    compiledFieldOptions.domain,
+    ...Object.values(compiledFieldOptions.fields),
+  ].filter((fieldOption) => fieldOption.strategy === 'all');
+  if (allStrategyFields.length > 1) {
+    return 'fieldOptionsStrategyIsInvalid';
+  }
+
+  if ('autoDetect' in options && options.autoDetect !== undefined && typeof options.autoDetect !== 'boolean') {
+    return 'autoDetectIsNotABoolean';
+  }
+
+  let maxNestedDepth = 0;
+  if ('nestedErrors' in options && options.nestedErrors !== undefined && options.nestedErrors !== false) {
+    const { nestedErrors } = options;
+    if (nestedErrors === true) {
+      maxNestedDepth = DEFAULT_MAX_NESTED_DEPTH;
+    } else if (nestedErrors !== null && typeof nestedErrors === 'object') {
+      maxNestedDepth = nestedErrors.maxDepth ?? DEFAULT_MAX_NESTED_DEPTH;
+      if (typeof maxNestedDepth !== 'number' || !Number.isInteger(maxNestedDepth) || maxNestedDepth < 0) {
+        return 'nestedErrorsIsInvalid';
+      }
+    } else {
+      return 'nestedErrorsIsInvalid';
+    }
+  }
+
+  let stringDecoders: CompiledStringDecoder[] = DEFAULT_STRING_DECODERS.map((name) => ({
+    name,
+    decode: BUILT_IN_STRING_DECODERS[name],
+  }));
+  if ('stringDecoders' in options && options.stringDecoders !== undefined) {
+    if (!Array.isArray(options.stringDecoders)) {
+      return 'stringDecodersIsNotAnArray';
+    }
+    stringDecoders = [];
+    for (const decoder of options.stringDecoders) {
+      if (typeof decoder === 'string' && BUILT_IN_STRING_DECODERS.hasOwnProperty(decoder)) {
+        stringDecoders.push({ name: decoder, decode: BUILT_IN_STRING_DECODERS[decoder] });
+      } else if (
+        decoder !== null &&
+        typeof decoder === 'object' &&
+        typeof decoder.name === 'string' &&
+        typeof decoder.decode === 'function'
+      ) {
+        const { decode } = decoder;
+        stringDecoders.push({
+          name: decoder.name,
+          decode: (input) => {
+            const value = decode(input);
+            return value !== undefined && value !== null ? { value } : undefined;
+          },
+        });
+      } else {
+        return 'stringDecoderIsInvalid';
+      }
+    }
+  }
+
+  const { maxMessageLength } = options;
+  if (
+    maxMessageLength !== undefined &&
+    (typeof maxMessageLength !== 'number' || !Number.isInteger(maxMessageLength) || maxMessageLength < 1)
+  ) {
+    return 'maxMessageLengthIsInvalid';
+  }
+
+  if ('transform' in options && typeof options.transform !== 'function') {
+    return 'transformIsNotAFunction';
+  }
+
+  return {
+    options,
+    guard,
+    elementGuard,
+    rejectedElementsAsWarnings: rejectedElements === 'warnings',
+    schema,
+    pathToErrors,
+    pathToCode: options.pathToCode.map(compilePath),
+    pathToNumberCode: options.pathToNumberCode.map(compilePath),
+    pathToMessage: options.pathToMessage.map(compilePath),
+    pathToDetails: options.pathToDetails.map(compilePath),
+    pathToDomain: options.pathToDomain.map(compilePath),
+    pathToFields,
+    maxNestedDepth,
+    stringDecoders,
+    maxMessageLength,
+    fieldOptions: compiledFieldOptions,
+    responseVariables: undefined,
+  };
+};
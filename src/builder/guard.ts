@@ -0,0 +1,208 @@
+import { ErrorObjectGuard, ErrorObjectGuardPrimitive, ErrorObjectGuardRule } from '../utils';
+import { CompiledPath, compilePath, findCompiledPathMatches } from './compile';
+
+/**
+ * A guard after validation, with its paths compiled and its regular expressions created.
+ */
+export type CompiledGuard =
+  | { kind: 'all'; guards: CompiledGuard[] }
+  | { kind: 'any'; guards: CompiledGuard[] }
+  | { kind: 'not'; guard: CompiledGuard; source: ErrorObjectGuard }
+  | { kind: 'rule'; rule: ErrorObjectGuardRule; path: CompiledPath; matches: RegExp | undefined };
+
+/**
+ * The rule that made a guard fail and the value it checked, or the failures of every rule of a failed `any`. For a
+ * failed `not`, the expected value is the guard inside it, which passed.
+ */
+export type GuardFailure = {
+  path: string | undefined;
+  operator: string;
+  expected: any;
+  actual: any;
+  failures?: GuardFailure[];
+};
+
+const RULE_KEYS = ['path', 'exists', 'equals', 'in', 'matches', 'gte', 'lte', 'type', 'isArray', 'length'];
+const TYPES = ['string', 'number', 'boolean', 'object'];
+
+const isPrimitive = (value: any): value is ErrorObjectGuardPrimitive =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const isOptionalNumber = (value: any): boolean => value === undefined || (typeof value === 'number' && !isNaN(value));
+
+const isValidRule = (rule: Record<string, any>): boolean => {
+  if (typeof rule.path !== 'string' || Object.keys(rule).some((key) => !RULE_KEYS.includes(key))) {
+    return false;
+  }
+  if (rule.exists !== undefined && typeof rule.exists !== 'boolean') {
+    return false;
+  }
+  if (rule.isArray !== undefined && typeof rule.isArray !== 'boolean') {
+    return false;
+  }
+  if ('equals' in rule && !isPrimitive(rule.equals)) {
+    return false;
+  }
+  if (rule.in !== undefined && (!Array.isArray(rule.in) || !rule.in.every(isPrimitive))) {
+    return false;
+  }
+  if (!isOptionalNumber(rule.gte) || !isOptionalNumber(rule.lte)) {
+    return false;
+  }
+  if (rule.type !== undefined && !TYPES.includes(rule.type)) {
+    return false;
+  }
+  const { length } = rule;
+  if (length !== undefined && typeof length !== 'number') {
+    return (
+      length !== null && typeof length === 'object' && isOptionalNumber(length.gte) && isOptionalNumber(length.lte)
+    );
+  }
+  return true;
+};
+
+/**
+ * Validates the guard and compiles its paths, returning `undefined` when it is invalid.
+ */
+export const compileGuard = (guard: ErrorObjectGuard): CompiledGuard | undefined => {
+  if (guard === undefined || guard === null || typeof guard !== 'object') {
+    return undefined;
+  }
+  if ('all' in guard || 'any' in guard) {
+    const guards = 'all' in guard ? guard.all : guard.any;
+    if (Object.keys(guard).length !== 1 || !Array.isArray(guards)) {
+      return undefined;
+    }
+    const compiledGuards: CompiledGuard[] = [];
+    for (const childGuard of guards) {
+      const compiledGuard = compileGuard(childGuard);
+      if (compiledGuard === undefined) {
+        return undefined;
+      }
+      compiledGuards.push(compiledGuard);
+    }
+    return { kind: 'all' in guard ? 'all' : 'any', guards: compiledGuards };
+  }
+  if ('not' in guard) {
+    const compiledGuard = Object.keys(guard).length === 1 ? compileGuard(guard.not) : undefined;
+    return compiledGuard !== undefined ? { kind: 'not', guard: compiledGuard, source: guard.not } : undefined;
+  }
+  if (!isValidRule(guard)) {
+    return undefined;
+  }
+  let matches: RegExp | undefined;
+  if (guard.matches !== undefined) {
+    try {
+      matches = guard.matches instanceof RegExp ? guard.matches : new RegExp(guard.matches);
+    } catch {
+      return undefined;
+    }
+  }
+  const path = compilePath(guard.path);
+  if (path.segments === undefined) {
+    return undefined;
+  }
+  return { kind: 'rule', rule: guard, path, matches };
+};
+
+const checkLength = (value: any, length: NonNullable<ErrorObjectGuardRule['length']>): boolean => {
+  if (!Array.isArray(value) && typeof value !== 'string') {
+    return false;
+  }
+  if (typeof length === 'number') {
+    return value.length === length;
+  }
+  return (
+    (length.gte === undefined || value.length >= length.gte) && (length.lte === undefined || value.length <= length.lte)
+  );
+};
+
+/**
+ * Checks a single rule, returning the first operator that failed.
+ */
+const evaluateRule = (
+  input: any,
+  { rule, path, matches }: Extract<CompiledGuard, { kind: 'rule' }>,
+): GuardFailure | undefined => {
+  const [match] = findCompiledPathMatches(input, path);
+  const exists = match !== undefined;
+  const value = match?.value;
+  const fail = (operator: string, expected: any): GuardFailure => ({
+    path: rule.path,
+    operator,
+    expected,
+    actual: value,
+  });
+
+  if (rule.exists !== undefined && exists !== rule.exists) {
+    return fail('exists', rule.exists);
+  }
+  if ('equals' in rule && value !== rule.equals) {
+    return fail('equals', rule.equals);
+  }
+  if (rule.in !== undefined && !rule.in.includes(value)) {
+    return fail('in', rule.in);
+  }
+  if (matches !== undefined) {
+    matches.lastIndex = 0;
+    if ((typeof value !== 'string' && typeof value !== 'number') || !matches.test(String(value))) {
+      return fail('matches', matches.toString());
+    }
+  }
+  if (rule.gte !== undefined && !(typeof value === 'number' && value >= rule.gte)) {
+    return fail('gte', rule.gte);
+  }
+  if (rule.lte !== undefined && !(typeof value === 'number' && value <= rule.lte)) {
+    return fail('lte', rule.lte);
+  }
+  if (rule.type !== undefined && typeof value !== rule.type) {
+    return fail('type', rule.type);
+  }
+  if (rule.isArray !== undefined && Array.isArray(value) !== rule.isArray) {
+    return fail('isArray', rule.isArray);
+  }
+  if (rule.length !== undefined && !checkLength(value, rule.length)) {
+    return fail('length', rule.length);
+  }
+  return undefined;
+};
+
+/**
+ * Checks the input using the guard, returning why it failed, or `undefined` when it passed.
+ */
+export const evaluateGuard = (input: any, guard: CompiledGuard): GuardFailure | undefined => {
+  switch (guard.kind) {
+    case 'all':
+      for (const childGuard of guard.guards) {
+        const failure = evaluateGuard(input, childGuard);
+        if (failure !== undefined) {
+          return failure;
+        }
+      }
+      return undefined;
+    case 'any': {
+      const failures: GuardFailure[] = [];
+      for (const childGuard of guard.guards) {
+        const failure = evaluateGuard(input, childGuard);
+        if (failure === undefined) {
+          return undefined;
+        }
+        failures.push(failure);
+      }
+      return { path: undefined, operator: 'any', expected: undefined, actual: undefined, failures };
+    }
+    case 'not': {
+      if (evaluateGuard(input, guard.guard) !== undefined) {
+        return undefined;
+      }
+      const { guard: innerGuard, source } = guard;
+      if (innerGuard.kind === 'rule') {
+        const [match] = findCompiledPathMatches(input, innerGuard.path);
+        return { path: innerGuard.rule.path, operator: 'not', expected: source, actual: match?.value };
+      }
+      return { path: undefined, operator: 'not', expected: source, actual: undefined };
+    }
+    case 'rule':
+      return evaluateRule(input, guard);
+  }
+};
@@ -1,57 +1,135 @@
 import {
-  DEFAULT_BUILD_OPTIONS,
-  ErrorObjectBuildOptions,
   ErrorObjectErrorResult,
-  ErrorObjectTransformState,
+  ErrorObjectStringDecoding,
+  ErrorObjectValue,
   ErrorSummary,
+  PathValueAndTransform,
   SHOW_ERROR_LOGS,
 } from '../utils';
-import { __processAllValuesFromPaths } from './valuesFromPaths';
+import {
+  AnyTransformState,
+  CompiledBuildOptions,
+  compilePath,
+  findCompiledPathMatches,
+  withPathVariables,
+} from './compile';
+import { evaluateGuard } from './guard';
+import { explainNativeError } from './nativeError';
+import { PathSkip } from './paths';
+import { explainGuardFailure } from './processingErrors';
+import { decodeString } from './stringDecoders';
+import { __processAllValuesFromPaths, FoundValue, ProcessedValues } from './valuesFromPaths';
+
+/**
+ * The index of an element found using a filter, from its concrete path, e.g. `2` for `errors[2]`.
+ */
+const indexFromPath = (path: string): number | undefined => {
+  const index = /\[(\d+)\]$/.exec(path)?.[1];
+  return index !== undefined ? Number(index) : undefined;
+};
 
 export const buildSummariesFromObject = (
   input: any,
-  withOptions?: ErrorObjectBuildOptions,
+  compiled: CompiledBuildOptions,
 ): (ErrorSummary | ErrorObjectErrorResult)[] => {
   try {
-    const options: ErrorObjectBuildOptions = withOptions ?? {
-      ...DEFAULT_BUILD_OPTIONS,
-    };
     if (input === undefined || input === null) {
       return ['isNullish'];
     }
+    if (typeof input === 'string') {
+      // Decoded objects are parsed like any other payload, so they can contain an errors array too
+      const decoded = decodeString(input, compiled.stringDecoders, compiled.maxMessageLength);
+      if (decoded.value === undefined) {
+        return ['stringDecodersFailed'];
+      }
+      const summaries = withPathVariables({ $root: decoded.value }, () =>
+        buildSummariesFromObject(decoded.value, compiled),
+      );
+      return summaries.map((summary) =>
+        typeof summary === 'object' ? { ...summary, stringDecoding: decoded.decoding } : summary,
+      );
+    }
     if (typeof input !== 'object') {
       return ['isNotAnObject'];
     }
 
     // Find an array of errors using `pathToErrors`
-    let errors: any[] = [];
+    let errors: { value: any; path: string | undefined; index?: number }[] = [];
     let errorsPath: string | undefined;
+    let skipped: PathSkip[] = [];
     let didDetectErrorsArray = false;
-    if ('pathToErrors' in options) {
-      if (!Array.isArray(options.pathToErrors)) {
-        return ['pathToErrorsIsNotAnArray'];
-      }
-      for (const path of options.pathToErrors) {
-        if (typeof path !== 'string') {
-          return ['pathToErrorsValuesAreNotStrings'];
+    let didFilterErrors = false;
+    if (compiled.pathToErrors !== undefined) {
+      for (const path of compiled.pathToErrors) {
+        // A path ending with a filter, e.g. `errors[?severity=='error']`, selects the error elements directly
+        if (path.segments?.[path.segments.length - 1]?.type === 'filter') {
+          const filterSkipped: PathSkip[] = [];
+          const matches = findCompiledPathMatches(input, path, filterSkipped);
+          if (matches.length > 0 || filterSkipped.length > 0) {
+            errors = matches.map((match) => ({ ...match, index: indexFromPath(match.path) }));
+            skipped = filterSkipped;
+            didDetectErrorsArray = true;
+            didFilterErrors = true;
+            break;
+          }
+          continue;
         }
-        const found = findNestedValueForPath(input, path);
-        if (found && Array.isArray(found)) {
-          errors = found;
-          errorsPath = path;
+        const found = findCompiledPathMatches(input, path).find((match) => Array.isArray(match.value));
+        if (found) {
+          errors = found.value.map((value: any, index: number) => ({ value, path: found.path, index }));
+          errorsPath = found.path;
           didDetectErrorsArray = true;
           break;
         }
       }
     }
-    if (errors.length === 0) {
-      errors = [input];
+    if (errors.length === 0 && !didFilterErrors) {
+      errors = [{ value: input, path: errorsPath }];
     }
 
     let summaries: (ErrorSummary | ErrorObjectErrorResult)[] = [];
-    for (const errorMaybeObject of errors) {
-      const summary = buildSummaryFromObject(errorMaybeObject, errorsPath, didDetectErrorsArray, options);
-      summaries.push(summary);
+    let rejectedElements = 0;
+    for (const error of errors) {
+      const guardFailure =
+        didDetectErrorsArray && compiled.elementGuard !== undefined
+          ? evaluateGuard(error.value, compiled.elementGuard)
+          : undefined;
+      if (guardFailure === undefined) {
+        summaries.push(...buildSummariesFromError(error.value, error.path, didDetectErrorsArray, compiled));
+        continue;
+      }
+      const reason = `Element guard failed: ${explainGuardFailure(guardFailure)}`;
+      rejectedElements++;
+      if (compiled.rejectedElementsAsWarnings) {
+        const warnings = buildSummariesFromError(error.value, error.path, didDetectErrorsArray, compiled);
+        summaries.push(
+          ...warnings.map((summary) =>
+            typeof summary === 'object' ? { ...summary, warning: reason, index: error.index } : summary,
+          ),
+        );
+      } else {
+        summaries.push({
+          didDetectErrorsArray: true,
+          input: error.value,
+          path: error.path,
+          skipped: reason,
+          index: error.index,
+          value: {},
+        });
+      }
+    }
+    // Skipped or built as warnings, rejected elements never become errors on their own
+    if (rejectedElements > 0 && rejectedElements === errors.length) {
+      summaries.push('elementGuardRejectedAllElements');
+    }
+    for (const skip of skipped) {
+      summaries.push({
+        didDetectErrorsArray: true,
+        input: skip.value,
+        path: skip.path,
+        skipped: skip.reason,
+        value: {},
+      });
     }
 
     return summaries;
@@ -62,69 +140,82 @@ export const buildSummariesFromObject = (
   }
 };
 
-export const buildSummaryFromObject = (
+/**
+ * Builds the summaries of a single error. Usually returns a single summary, except when a field uses the `all`
+ * strategy and several values were found for it.
+ */
+export const buildSummariesFromError = (
   maybeObject: any,
   errorsPath: string | undefined,
   didDetectErrorsArray: boolean,
-  withOptions?: ErrorObjectBuildOptions,
-): ErrorSummary | ErrorObjectErrorResult => {
+  compiled: CompiledBuildOptions,
+): (ErrorSummary | ErrorObjectErrorResult)[] => {
   try {
-    const options: ErrorObjectBuildOptions = withOptions ?? {
-      ...DEFAULT_BUILD_OPTIONS,
-    };
     if (maybeObject === undefined || maybeObject === null) {
-      return 'buildSummaryIsNullish';
+      return ['buildSummaryIsNullish'];
     }
 
     let objectToParse: any;
+    let stringDecoding: ErrorObjectStringDecoding | undefined;
     if (typeof maybeObject === 'string') {
-      try {
-        const json = JSON.parse(maybeObject);
-        if (json !== undefined && json !== null && typeof json === 'object') {
-          objectToParse = json;
-        }
-      } catch {
-        // At least we tried :)
-      }
-      if (objectToParse === undefined) {
-        objectToParse = { code: 'unknown', message: maybeObject };
+      const decoded = decodeString(maybeObject, compiled.stringDecoders, compiled.maxMessageLength);
+      if (decoded.value === undefined) {
+        return ['stringDecodersFailed'];
       }
+      objectToParse = decoded.value;
+      stringDecoding = decoded.decoding;
     }
     if (objectToParse === undefined || objectToParse === null) {
       objectToParse = maybeObject;
     }
 
     if (typeof objectToParse !== 'object') {
-      return 'buildSummaryIsNotAnObject';
-    }
-
-    const valuesResult = __processAllValuesFromPaths(objectToParse, options);
-    if (typeof valuesResult === 'string') {
-      return valuesResult;
-    }
-    const {
-      codeBeforeTransform,
-      codePath,
-      numberCodeBeforeTransform,
-      numberCodePath,
-      messageBeforeTransform,
-      messagePath,
-      detailsBeforeTransform,
-      detailsPath,
-      domainBeforeTransform,
-      domainPath,
-    } = valuesResult;
-
-    if ('transform' in options && typeof options.transform !== 'function') {
-      return 'transformIsNotAFunction';
-    }
-
-    const beforeTransform: ErrorObjectTransformState = {
-      code: codeBeforeTransform,
-      numberCode: numberCodeBeforeTransform,
-      message: messageBeforeTransform,
-      details: detailsBeforeTransform,
-      domain: domainBeforeTransform,
+      return ['buildSummaryIsNotAnObject'];
+    }
+
+    return __processAllValuesFromPaths(objectToParse, compiled).map((processedValues) =>
+      buildSummaryFromValues(
+        objectToParse,
+        processedValues,
+        errorsPath,
+        didDetectErrorsArray,
+        stringDecoding,
+        compiled,
+      ),
+    );
+  } catch (generalError) {
+    SHOW_ERROR_LOGS && console.log('[ErrorObjectFromPayload]', 'Error during buildSummariesFromError():', generalError);
+    return ['generalBuildSummaryFromObjectError'];
+  }
+};
+
+const buildSummaryFromValues = (
+  objectToParse: any,
+  { code, numberCode, message, details, domain, fields, autoDetect }: ProcessedValues,
+  errorsPath: string | undefined,
+  didDetectErrorsArray: boolean,
+  stringDecoding: ErrorObjectStringDecoding | undefined,
+  compiled: CompiledBuildOptions,
+): ErrorSummary | ErrorObjectErrorResult => {
+  try {
+    const { options } = compiled;
+    let fieldsBeforeTransform: Record<string, ErrorObjectValue | null | undefined> | undefined;
+    if (fields !== undefined) {
+      fieldsBeforeTransform = {};
+      for (const [name, field] of Object.entries(fields)) {
+        if (field !== undefined) {
+          fieldsBeforeTransform[name] = field.value;
+        }
+      }
+    }
+
+    const beforeTransform: AnyTransformState = {
+      code: code?.value,
+      numberCode: numberCode?.value,
+      message: message?.value,
+      details: details?.value,
+      domain: domain?.value,
+      fields: fieldsBeforeTransform,
     };
 
     const values = options.transform ? options.transform(beforeTransform, objectToParse) : beforeTransform;
@@ -144,82 +235,110 @@ export const buildSummaryFromObject = (
     if (values.message && typeof values.message !== 'string') {
       return 'transformMessageResultIsNotString';
     }
-    if (values.details && typeof values.details !== 'string') {
+    if (values.details && typeof values.details !== 'string' && compiled.fieldOptions.details.mode !== 'raw') {
       return 'transformDetailsResultIsNotString';
     }
     if (values.domain && typeof values.domain !== 'string') {
       return 'transformDomainResultIsNotString';
     }
+    if (values.fields !== undefined && values.fields !== null) {
+      if (typeof values.fields !== 'object' || Array.isArray(values.fields)) {
+        return 'transformFieldsResultIsNotAnObject';
+      }
+      for (const [field, value] of Object.entries(values.fields)) {
+        if (value && typeof value !== 'string' && compiled.fieldOptions.fields[field]?.mode !== 'raw') {
+          return 'transformFieldResultIsNotString';
+        }
+      }
+    }
 
+    let summaryFields: ErrorSummary['value']['fields'];
+    const fieldNames = new Set([...Object.keys(fields ?? {}), ...Object.keys(values.fields ?? {})]);
+    for (const name of fieldNames) {
+      const found = fields?.[name];
+      const field: PathValueAndTransform<ErrorObjectValue | null> | undefined = summarizeValue(
+        found,
+        values.fields?.[name],
+      );
+      // Raw extra fields keep `null` when it was found and not transformed, e.g. the JSON-RPC `id` of a Parse error
+      if (field !== undefined && found?.value === null && values.fields?.[name] === null) {
+        field.value = null;
+      }
+      if (field !== undefined) {
+        summaryFields = { ...summaryFields, [name]: field };
+      }
+    }
+
+    const value: ErrorSummary['value'] = {
+      code: summarizeValue(code, values.code),
+      numberCode: summarizeValue(numberCode, values.numberCode),
+      message: summarizeValue(message, values.message),
+      details: summarizeValue(details, values.details),
+      domain: summarizeValue(domain, values.domain),
+      fields: summaryFields,
+    };
     return {
       didDetectErrorsArray: didDetectErrorsArray ? true : undefined,
       input: objectToParse,
       path: errorsPath,
-      value: {
-        code:
-          codePath || codeBeforeTransform || values.code
-            ? {
-                path: codePath,
-                beforeTransform: codeBeforeTransform,
-                value: values.code,
-              }
-            : undefined,
-        numberCode:
-          numberCodePath ||
-          (numberCodeBeforeTransform !== undefined && numberCodeBeforeTransform !== null) ||
-          (values.numberCode !== undefined && values.numberCode !== null)
-            ? {
-                path: numberCodePath,
-                beforeTransform: numberCodeBeforeTransform,
-                value: values.numberCode,
-              }
-            : undefined,
-        message:
-          messagePath || messageBeforeTransform || values.message
-            ? {
-                path: messagePath,
-                beforeTransform: messageBeforeTransform,
-                value: values.message,
-              }
-            : undefined,
-        details:
-          detailsPath || detailsBeforeTransform || values.details
-            ? {
-                path: detailsPath,
-                beforeTransform: detailsBeforeTransform,
-                value: values.details,
-              }
-            : undefined,
-        domain:
-          domainPath || domainBeforeTransform || values.domain
-            ? {
-                path: domainPath,
-                beforeTransform: domainBeforeTransform,
-                value: values.domain,
-              }
-            : undefined,
-      },
+      autoDetect,
+      nativeError: explainNativeError(objectToParse, value),
+      stringDecoding,
+      value,
     };
   } catch (generalError) {
-    SHOW_ERROR_LOGS &&
-      console.log('[ErrorObjectFromPayload]', 'Error during buildSummaryFromObject():', generalError);
+    SHOW_ERROR_LOGS && console.log('[ErrorObjectFromPayload]', 'Error during buildSummaryFromValues():', generalError);
     return 'generalBuildSummaryFromObjectError';
   }
 };
 
+const summarizeValue = <V>(
+  found: FoundValue<V> | undefined,
+  value: V | undefined | null,
+): PathValueAndTransform<V> | undefined => {
+  if (found === undefined && (value === undefined || value === null || (value as unknown) === '')) {
+    return undefined;
+  }
+  const summary: PathValueAndTransform<V> = {
+    path: found?.path,
+    beforeTransform: found?.value,
+    value: value ?? undefined,
+  };
+  if (found?.coercion !== undefined) {
+    summary.coercion = found.coercion;
+  }
+  if (found?.joined !== undefined) {
+    summary.joined = found.joined;
+  }
+  return summary;
+};
+
+/**
+ * Checks if the input contains a non-empty errors array, using `pathToErrors`. Used to look for nested errors.
+ */
+export const hasErrorsArray = (input: any, compiled: CompiledBuildOptions): boolean => {
+  if (compiled.pathToErrors === undefined || input === undefined || input === null || typeof input !== 'object') {
+    return false;
+  }
+  for (const path of compiled.pathToErrors) {
+    const matches = findCompiledPathMatches(input, path);
+    if (path.segments?.[path.segments.length - 1]?.type === 'filter') {
+      if (matches.length > 0) {
+        return true;
+      }
+      continue;
+    }
+    const found = matches.find((match) => Array.isArray(match.value));
+    if (found) {
+      return found.value.length > 0;
+    }
+  }
+  return false;
+};
+
 export const findNestedValueForPath = (value: any, path: string): any => {
   if (!path || !value) {
     return undefined;
   }
-  const normalizedPath = path?.replace('[', '')?.replace(']', '');
-  return !normalizedPath
-    ? undefined
-    : normalizedPath.split('.').reduce((acc, key) => {
-        if (key.length === 0) {
-          return acc;
-        }
-        const numericKey = Number(key);
-        const resolvedKey = isNaN(numericKey) ? key : numericKey;
-        return acc && typeof acc === 'object' ? acc[resolvedKey] : undefined;
-      }, value);
+  return findCompiledPathMatches(value, compilePath(path))[0]?.value;
 };
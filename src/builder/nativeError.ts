@@ -0,0 +1,126 @@
+import { ErrorObjectNativeErrorKind, ErrorSummary } from '../utils';
+import { CompiledPath, compilePath } from './compile';
+
+type NativeErrorInfo = {
+  name: string;
+  kind: ErrorObjectNativeErrorKind;
+  hasCause: boolean;
+  aggregatedErrors: number;
+};
+
+/**
+ * The properties of Node.js system errors, e.g. `{ code: 'ENOENT', errno: -2, syscall: 'open', path: '/tmp/x' }`.
+ */
+const SYSTEM_ERROR_KEYS = ['code', 'errno', 'syscall', 'path', 'address', 'port', 'dest'];
+
+/**
+ * Paths checked after the configured ones when the input is a native error, e.g. the name is the code fallback.
+ */
+export const NATIVE_ERROR_PATHS: {
+  code: CompiledPath[];
+  numberCode: CompiledPath[];
+  message: CompiledPath[];
+  domain: CompiledPath[];
+} = {
+  code: ['code', 'name'].map(compilePath),
+  numberCode: ['errno'].map(compilePath),
+  message: ['message'].map(compilePath),
+  domain: ['syscall'].map(compilePath),
+};
+
+/**
+ * A native error with the properties added by Node.js, `AggregateError` and `Error` subclasses, read one by one.
+ */
+export type NativeErrorSource = Error & Record<string, unknown>;
+
+const nativeErrorSnapshots = new WeakMap<object, NativeErrorInfo>();
+
+export const isNativeError = (value: any): value is NativeErrorSource =>
+  value !== undefined &&
+  value !== null &&
+  typeof value === 'object' &&
+  (value instanceof Error ||
+    Object.prototype.toString.call(value) === '[object Error]' ||
+    value.constructor?.name === 'DOMException');
+
+export const isNativeErrorSnapshot = (value: any): boolean =>
+  value !== undefined && value !== null && typeof value === 'object' && nativeErrorSnapshots.has(value);
+
+const nativeErrorKindOf = (error: NativeErrorSource): ErrorObjectNativeErrorKind => {
+  if (error.constructor?.name === 'DOMException') {
+    return 'DOMException';
+  }
+  if (
+    Array.isArray(error.errors) &&
+    (error.name === 'AggregateError' || error.constructor?.name === 'AggregateError')
+  ) {
+    return 'AggregateError';
+  }
+  if (typeof error.syscall === 'string' || typeof error.errno === 'number') {
+    return 'SystemError';
+  }
+  return 'Error';
+};
+
+/**
+ * Copies the useful properties of a native error into a plain object, since `name`, `message` and `stack` are not
+ * enumerable. The `cause` and `errors` properties are left out, they are linked to the error instead of being parsed.
+ */
+export const createNativeErrorSnapshot = (error: Error): Record<string, any> => {
+  const source = error as NativeErrorSource;
+  const snapshot: Record<string, any> = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (key !== 'cause' && key !== 'errors' && key !== 'stack') {
+      snapshot[key] = value;
+    }
+  }
+  snapshot.name = typeof source.name === 'string' && source.name ? source.name : (source.constructor?.name ?? 'Error');
+  snapshot.message = typeof source.message === 'string' ? source.message : undefined;
+  for (const key of SYSTEM_ERROR_KEYS) {
+    const value = source[key];
+    if (value !== undefined && value !== null) {
+      snapshot[key] = value;
+    }
+  }
+  nativeErrorSnapshots.set(snapshot, {
+    name: snapshot.name,
+    kind: nativeErrorKindOf(source),
+    hasCause: source.cause !== undefined && source.cause !== null,
+    aggregatedErrors: Array.isArray(source.errors)
+      ? source.errors.filter((value: unknown) => value !== undefined && value !== null && typeof value === 'object')
+          .length
+      : 0,
+  });
+  return snapshot;
+};
+
+/**
+ * Explains how a native error was mapped, using the paths the values were found at.
+ */
+export const explainNativeError = (
+  snapshot: any,
+  value: ErrorSummary['value'],
+): ErrorSummary['nativeError'] | undefined => {
+  const info = nativeErrorSnapshots.get(snapshot);
+  if (info === undefined) {
+    return undefined;
+  }
+  const explanation: string[] = [];
+  for (const [field, found] of Object.entries(value)) {
+    if (field !== 'fields' && found !== undefined && 'path' in found && found.path !== undefined) {
+      explanation.push(`${field} from "${found.path}"`);
+    }
+  }
+  explanation.push('stack kept in raw.stack');
+  if (info.hasCause) {
+    explanation.push('cause linked as cause');
+  }
+  if (info.aggregatedErrors > 0) {
+    explanation.push(`${info.aggregatedErrors} aggregated errors linked as nextErrors`);
+  }
+  return {
+    name: info.name,
+    kind: info.kind,
+    explanation: `${info.kind} ${info.name}: ${explanation.join(', ')}`,
+  };
+};
@@ -0,0 +1,420 @@
+/**
+ * A single step of a parsed path.
+ * - `key` reads a property by name (numeric keys also work for arrays, e.g. `errors.0`)
+ * - `index` reads an array element, negative values are counted from the end of the array
+ * - `wildcard` reads every element of an array or every value of an object (`*`, `[*]`)
+ * - `descent` reads the current value and all of its descendants, in breadth-first order (`..`)
+ * - `filter` reads the array elements matching a predicate (`[?severity=='error']`, `[?retryable]`)
+ */
+export type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descent' }
+  | { type: 'filter'; filter: PathFilter };
+
+/**
+ * A predicate used by `filter` segments. Without an `operator`, the filter only checks that the value at `path` is
+ * neither `undefined` nor `null`.
+ */
+export type PathFilter = {
+  expression: string;
+  path: PathSegment[];
+  operator?: PathFilterOperator;
+  value?: string | number | boolean | null;
+};
+
+export type PathFilterOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * An array element rejected by a filter, together with the reason it was rejected.
+ */
+export type PathSkip = PathMatch & {
+  reason: string;
+};
+
+/**
+ * A value found while resolving a path, together with the concrete path that leads to it.
+ */
+export type PathMatch = {
+  path: string;
+  value: any;
+};
+
+const INDEX_REGEX = /^-?\d+$/;
+
+/**
+ * Parses a path string into segments. Supported syntax:
+ * - dot notation: `error.code`, `errors.0.code`
+ * - brackets: `errors[0].code`, `errors[-1].code`, `errors[0].items[1].code`
+ * - quoted keys: `data["error.code"]`, `data['error.code']`
+ * - escaped chars in plain keys: `error\.code` reads the literal `error.code` key
+ * - wildcards: `*.error.code`, `errors.*.message`, `errors[*].message`
+ * - recursive descent: `..code`, `data..code` (the first match is the shallowest one)
+ * - filters: `errors[?severity=='error']`, `details[?@type=='type.googleapis.com/google.rpc.ErrorInfo'].reason`,
+ *   `errors[?status>=500]`, `errors[?retryable]` (operators: `==`, `!=`, `<`, `<=`, `>`, `>=`)
+ *
+ * Returns `undefined` if the path is malformed (e.g. an unclosed bracket or quote).
+ */
+export const parsePath = (path: string): PathSegment[] | undefined => {
+  const segments: PathSegment[] = [];
+  let i = 0;
+  while (i < path.length) {
+    const char = path[i];
+    if (char === '.') {
+      if (path[i + 1] === '.') {
+        segments.push({ type: 'descent' });
+        i += 2;
+        continue;
+      }
+      i++;
+      continue;
+    }
+    if (char === '[') {
+      const result = parseBracket(path, i);
+      if (result === undefined) {
+        return undefined;
+      }
+      segments.push(result.segment);
+      i = result.end;
+      if (i < path.length && path[i] !== '.' && path[i] !== '[') {
+        return undefined;
+      }
+      continue;
+    }
+    if (char === ']') {
+      return undefined;
+    }
+
+    let key = '';
+    let isEscaped = false;
+    while (i < path.length && path[i] !== '.' && path[i] !== '[' && path[i] !== ']') {
+      if (path[i] === '\\') {
+        if (i + 1 >= path.length) {
+          return undefined;
+        }
+        key += path[i + 1];
+        isEscaped = true;
+        i += 2;
+        continue;
+      }
+      key += path[i];
+      i++;
+    }
+    segments.push(key === '*' && !isEscaped ? { type: 'wildcard' } : { type: 'key', key });
+  }
+  if (segments[segments.length - 1]?.type === 'descent') {
+    return undefined;
+  }
+  return segments;
+};
+
+const parseBracket = (path: string, start: number): { segment: PathSegment; end: number } | undefined => {
+  let i = start + 1;
+  if (path[i] === '?') {
+    const close = indexOfUnquoted(path, ']', i + 1);
+    if (close === -1) {
+      return undefined;
+    }
+    const filter = parseFilter(path.slice(i + 1, close));
+    return filter === undefined ? undefined : { segment: { type: 'filter', filter }, end: close + 1 };
+  }
+  const quote = path[i];
+  if (quote === '"' || quote === "'") {
+    i++;
+    let key = '';
+    while (i < path.length && path[i] !== quote) {
+      if (path[i] === '\\') {
+        if (i + 1 >= path.length) {
+          return undefined;
+        }
+        key += path[i + 1];
+        i += 2;
+        continue;
+      }
+      key += path[i];
+      i++;
+    }
+    if (path[i] !== quote || path[i + 1] !== ']') {
+      return undefined;
+    }
+    return { segment: { type: 'key', key }, end: i + 2 };
+  }
+
+  const close = path.indexOf(']', i);
+  if (close === -1) {
+    return undefined;
+  }
+  const content = path.slice(i, close).trim();
+  if (content.length === 0) {
+    return undefined;
+  }
+  if (content === '*') {
+    return { segment: { type: 'wildcard' }, end: close + 1 };
+  }
+  if (INDEX_REGEX.test(content)) {
+    return { segment: { type: 'index', index: Number(content) }, end: close + 1 };
+  }
+  return { segment: { type: 'key', key: content }, end: close + 1 };
+};
+
+const FILTER_OPERATORS: PathFilterOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+const indexOfUnquoted = (text: string, search: string, from: number): number => {
+  let quote: string | undefined;
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (quote !== undefined) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      continue;
+    }
+    if (text.startsWith(search, i)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const parseFilter = (expression: string): PathFilter | undefined => {
+  let operator: PathFilterOperator | undefined;
+  let operatorIndex = -1;
+  for (const candidate of FILTER_OPERATORS) {
+    const index = indexOfUnquoted(expression, candidate, 0);
+    if (index !== -1 && (operatorIndex === -1 || index < operatorIndex)) {
+      operator = candidate;
+      operatorIndex = index;
+    }
+  }
+
+  const left = (operator === undefined ? expression : expression.slice(0, operatorIndex)).trim();
+  const segments = parsePath(left.startsWith('@.') ? left.slice(2) : left);
+  if (segments === undefined || segments.length === 0) {
+    return undefined;
+  }
+  if (operator === undefined) {
+    return { expression, path: segments };
+  }
+
+  const right = expression.slice(operatorIndex + operator.length).trim();
+  const value = parseFilterValue(right);
+  if (value === undefined) {
+    return undefined;
+  }
+  return { expression, path: segments, operator, value: value.value };
+};
+
+const parseFilterValue = (text: string): { value: string | number | boolean | null } | undefined => {
+  const quote = text[0];
+  if ((quote === '"' || quote === "'") && text.length >= 2 && text[text.length - 1] === quote) {
+    return { value: text.slice(1, -1).replace(/\\(.)/g, '$1') };
+  }
+  if (text === 'true' || text === 'false') {
+    return { value: text === 'true' };
+  }
+  if (text === 'null') {
+    return { value: null };
+  }
+  if (text.length > 0 && !isNaN(Number(text))) {
+    return { value: Number(text) };
+  }
+  return undefined;
+};
+
+const filterValueOf = (element: any, filter: PathFilter): any =>
+  isDynamicPath(filter.path)
+    ? findPathMatches(element, filter.path, '')[0]?.value
+    : resolvePathSegments(element, filter.path);
+
+const testFilter = (found: any, filter: PathFilter): boolean => {
+  const { operator, value } = filter;
+  if (operator === undefined) {
+    return found !== undefined && found !== null;
+  }
+  if (operator === '==') {
+    return found === value;
+  }
+  if (operator === '!=') {
+    return found !== value;
+  }
+  if (typeof found !== typeof value || (typeof found !== 'number' && typeof found !== 'string')) {
+    return false;
+  }
+  const left = found as number | string;
+  const right = value as number | string;
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+};
+
+/**
+ * Reads the value found at the given static segments (keys and indices), starting from `value`.
+ * Use {@link findPathMatches} for paths containing wildcards or recursive descent.
+ */
+export const resolvePathSegments = (value: any, segments: PathSegment[]): any => {
+  let acc = value;
+  for (const segment of segments) {
+    if (acc === undefined || acc === null || typeof acc !== 'object') {
+      return undefined;
+    }
+    if (segment.type === 'wildcard' || segment.type === 'descent' || segment.type === 'filter') {
+      return undefined;
+    }
+    if (segment.type === 'index') {
+      if (Array.isArray(acc)) {
+        acc = acc[segment.index < 0 ? acc.length + segment.index : segment.index];
+      } else {
+        acc = acc[segment.index];
+      }
+      continue;
+    }
+    acc = acc[segment.key];
+  }
+  return acc;
+};
+
+/**
+ * Checks if the segments can match more than one value, meaning the concrete path of a match can differ from the
+ * original path string.
+ */
+export const isDynamicPath = (segments: PathSegment[]): boolean =>
+  segments.some((segment) => segment.type === 'wildcard' || segment.type === 'descent' || segment.type === 'filter');
+
+const SIMPLE_KEY_REGEX = /^[^.[\]\\'"*]+$/;
+
+/**
+ * Formats segments back into a path string, e.g. `data.errors[1]["error.code"]`.
+ */
+export const formatPath = (segments: PathSegment[]): string => {
+  let result = '';
+  for (const segment of segments) {
+    if (segment.type === 'index') {
+      result += `[${segment.index}]`;
+    } else if (segment.type === 'key') {
+      if (SIMPLE_KEY_REGEX.test(segment.key)) {
+        result += result.length > 0 ? `.${segment.key}` : segment.key;
+      } else {
+        result += `[${JSON.stringify(segment.key)}]`;
+      }
+    } else if (segment.type === 'wildcard') {
+      result += '[*]';
+    } else if (segment.type === 'filter') {
+      result += `[?${segment.filter.expression}]`;
+    } else {
+      result += '..';
+    }
+  }
+  return result;
+};
+
+type PathNode = {
+  value: any;
+  segments: PathSegment[];
+};
+
+const childrenOf = (node: PathNode): PathNode[] => {
+  const { value, segments } = node;
+  if (value === undefined || value === null || typeof value !== 'object') {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.map((child, index) => ({ value: child, segments: [...segments, { type: 'index', index }] }));
+  }
+  return Object.keys(value).map((key) => ({ value: value[key], segments: [...segments, { type: 'key', key }] }));
+};
+
+const descendantsOf = (node: PathNode): PathNode[] => {
+  const result: PathNode[] = [];
+  const visited = new Set<any>();
+  const queue: PathNode[] = [node];
+  while (queue.length > 0) {
+    const current = queue.shift() as PathNode;
+    if (current.value !== null && typeof current.value === 'object') {
+      if (visited.has(current.value)) {
+        continue;
+      }
+      visited.add(current.value);
+    }
+    result.push(current);
+    queue.push(...childrenOf(current));
+  }
+  return result;
+};
+
+const concreteSegment = (value: any, segment: PathSegment): PathSegment => {
+  if (segment.type === 'index' && segment.index < 0 && Array.isArray(value)) {
+    return { type: 'index', index: value.length + segment.index };
+  }
+  return segment;
+};
+
+/**
+ * Finds all values matching the segments, in order. Static paths have at most one match, while wildcards and
+ * recursive descent can produce many. Static matches keep the original `path`, dynamic ones get the concrete path
+ * that leads to them, e.g. `..code` can resolve to `data.result.error.code`.
+ * Array elements rejected by filters are pushed to `skipped`, if provided.
+ */
+export const findPathMatches = (
+  value: any,
+  segments: PathSegment[],
+  path: string,
+  skipped?: PathSkip[],
+): PathMatch[] => {
+  if (!isDynamicPath(segments)) {
+    const found = resolvePathSegments(value, segments);
+    return found === undefined ? [] : [{ path, value: found }];
+  }
+
+  let nodes: PathNode[] = [{ value, segments: [] }];
+  for (const segment of segments) {
+    const next: PathNode[] = [];
+    for (const node of nodes) {
+      if (segment.type === 'wildcard') {
+        next.push(...childrenOf(node));
+      } else if (segment.type === 'descent') {
+        next.push(...descendantsOf(node));
+      } else if (segment.type === 'filter') {
+        if (!Array.isArray(node.value)) {
+          continue;
+        }
+        for (const child of childrenOf(node)) {
+          const found = filterValueOf(child.value, segment.filter);
+          if (testFilter(found, segment.filter)) {
+            next.push(child);
+          } else {
+            skipped?.push({
+              path: formatPath(child.segments),
+              value: child.value,
+              reason: `Filter [?${segment.filter.expression}] did not match, ${formatPath(segment.filter.path)} is ${
+                found === undefined ? 'undefined' : JSON.stringify(found)
+              }`,
+            });
+          }
+        }
+      } else {
+        const found = resolvePathSegments(node.value, [segment]);
+        if (found !== undefined) {
+          next.push({ value: found, segments: [...node.segments, concreteSegment(node.value, segment)] });
+        }
+      }
+    }
+    nodes = next;
+  }
+  return nodes
+    .filter((node) => node.value !== undefined)
+    .map((node) => ({ path: formatPath(node.segments), value: node.value }));
+};
@@ -0,0 +1,239 @@
+import {
+  ErrorObjectErrorResult,
+  ErrorObjectProcessingError,
+  ErrorObjectProcessingErrorKind,
+  ErrorObjectSchemaIssue,
+  ErrorSummary,
+} from '../utils';
+import { GuardFailure } from './guard';
+
+const PREVIEW_LENGTH = 80;
+
+const EXPLANATIONS: Record<ErrorObjectErrorResult, string> = {
+  isNullish: 'The input is null or undefined',
+  isNotAnObject: 'The input is not an object or a string',
+  checkIsNullish: 'The input is null or undefined',
+  checkIsNotAnObject: 'The input is not an object or a string',
+  isNotAnArray: 'The input is not an array',
+  checkInputObjectForValuesIsNotAnObject: 'The checkInputObjectForValues option is not an object',
+  checkInputObjectForValuesFailed: 'A checkInputObjectForValues rule failed',
+  checkInputObjectForTypesIsNotAnObject: 'The checkInputObjectForTypes option is not an object',
+  checkInputObjectForTypesFailed: 'A checkInputObjectForTypes rule failed',
+  checkInputObjectForTypesValueIsArrayFailed: 'A checkInputObjectForTypes valueIsArray rule failed',
+  checkInputObjectForKeysIsNotAnObject: 'The checkInputObjectForKeys option is not an object',
+  checkInputObjectForKeysFailed: 'A checkInputObjectForKeys rule failed',
+  guardIsInvalid: 'The guard option is invalid: unknown operators, invalid operator values or an invalid path',
+  guardFailed: 'The guard option failed',
+  elementGuardIsInvalid:
+    'The elementGuard option is invalid: unknown operators, invalid operator values or an invalid path',
+  elementGuardRejectedAllElements:
+    'The elementGuard option rejected every element of the errors array, so no error could be built from it',
+  rejectedElementsIsInvalid: "The rejectedElements option is not 'skip' or 'warnings'",
+  schemaIsInvalid: 'The schema option is not a Standard Schema v1 validator or a valid JSON Schema',
+  schemaIsAsync: 'The schema option validated asynchronously, only synchronous validation is supported',
+  schemaFailed: 'The input does not match the schema option',
+  pathToErrorsIsNotAnArray: 'The pathToErrors option is not an array',
+  pathToErrorsValuesAreNotStrings: 'The pathToErrors option contains values that are not strings',
+  pathToCodeIsInvalid: 'The pathToCode option is missing',
+  pathToCodeIsNotAnArray: 'The pathToCode option is not an array',
+  pathToCodeValuesAreNotStrings: 'The pathToCode option contains values that are not strings',
+  pathToNumberCodeIsInvalid: 'The pathToNumberCode option is missing',
+  pathToNumberCodeIsNotAnArray: 'The pathToNumberCode option is not an array',
+  pathToNumberCodeValuesAreNotStrings: 'The pathToNumberCode option contains values that are not strings',
+  pathToMessageIsInvalid: 'The pathToMessage option is missing',
+  pathToMessageIsNotAnArray: 'The pathToMessage option is not an array',
+  pathToMessageValuesAreNotStrings: 'The pathToMessage option contains values that are not strings',
+  pathToDetailsIsInvalid: 'The pathToDetails option is missing',
+  pathToDetailsIsNotAnArray: 'The pathToDetails option is not an array',
+  pathToDetailsValuesAreNotStrings: 'The pathToDetails option contains values that are not strings',
+  pathToDomainIsInvalid: 'The pathToDomain option is missing',
+  pathToDomainIsNotAnArray: 'The pathToDomain option is not an array',
+  pathToDomainValuesAreNotStrings: 'The pathToDomain option contains values that are not strings',
+  pathToFieldsIsNotAnObject: 'The pathToFields option is not an object',
+  pathToFieldsValuesAreNotArrays: 'The pathToFields option contains values that are not arrays',
+  pathToFieldsValuesAreNotStrings: 'The pathToFields option contains paths that are not strings',
+  fieldOptionsIsNotAnObject: 'The fieldOptions option, or one of its values, is not an object',
+  fieldOptionsModeIsInvalid: 'A fieldOptions mode is unknown, or is raw for a field that only accepts strings',
+  fieldOptionsCoerceIsNotAnObject: 'A fieldOptions coerce value is not an object',
+  fieldOptionsStrategyIsInvalid:
+    'A fieldOptions strategy is unknown, join is used with the raw mode or for numberCode, or all is used for more than one field',
+  fieldOptionsSeparatorIsNotAString: 'A fieldOptions separator is not a string',
+  profilesIsEmpty: 'The list of profiles is empty',
+  autoDetectIsNotABoolean: 'The autoDetect option is not a boolean',
+  nestedErrorsIsInvalid: 'The nestedErrors option is not a boolean or an object with a non-negative integer maxDepth',
+  stringDecodersIsNotAnArray: 'The stringDecoders option is not an array',
+  stringDecoderIsInvalid:
+    'A string decoder is not a built-in decoder name or an object with a name and a decode function',
+  stringDecodersFailed: 'None of the string decoders could decode the input string',
+  maxMessageLengthIsInvalid: 'The maxMessageLength option is not a positive integer',
+  profileIsInvalid: 'A profile is not an object',
+  transformIsNotAFunction: 'The transform option is not a function',
+  transformResultIsNotAValidObject: 'The transform function did not return an object',
+  transformCodeResultIsNotString: 'The transform function returned a code that is not a string',
+  transformNumberCodeResultIsNotNumber: 'The transform function returned a number code that is not a number',
+  transformNumberCodeResultIsNaN: 'The transform function returned a number code that is NaN',
+  transformMessageResultIsNotString: 'The transform function returned a message that is not a string',
+  transformDetailsResultIsNotString:
+    'The transform function returned details that are not a string, while the details mode is not raw',
+  transformDomainResultIsNotString: 'The transform function returned a domain that is not a string',
+  transformFieldsResultIsNotAnObject: 'The transform function returned fields that are not an object',
+  transformFieldResultIsNotString:
+    'The transform function returned a field that is not a string, while the field mode is not raw',
+  buildSummaryIsNullish: 'An error found in the input is null or undefined',
+  buildSummaryIsNotAnObject: 'An error found in the input is not an object or a string',
+  generalBuildSummariesFromObjectError: 'An unexpected error was thrown while looking for errors in the input',
+  generalBuildSummaryFromObjectError: 'An unexpected error was thrown while building an error from the input',
+  generalCheckInputObjectForValuesError: 'An unexpected error was thrown while checking the input',
+  unknownCodeOrMessage: 'No code or no message was found for an error, using the pathToCode and pathToMessage options',
+  invalidSummary: 'An error summary is invalid',
+};
+
+const kindOf = (errorCode: ErrorObjectErrorResult): ErrorObjectProcessingErrorKind => {
+  for (const kind of ['checkInputObjectForValues', 'checkInputObjectForTypes', 'checkInputObjectForKeys'] as const) {
+    if (errorCode.startsWith(kind)) {
+      return kind;
+    }
+  }
+  if (errorCode === 'guardFailed' || errorCode === 'elementGuardRejectedAllElements') {
+    return 'guard';
+  }
+  if (errorCode === 'schemaFailed' || errorCode === 'schemaIsAsync') {
+    return 'schema';
+  }
+  if (errorCode.startsWith('transform') && errorCode !== 'transformIsNotAFunction') {
+    return 'transform';
+  }
+  if (errorCode.startsWith('profiles')) {
+    return 'profiles';
+  }
+  if (errorCode === 'unknownCodeOrMessage' || errorCode === 'invalidSummary' || errorCode.startsWith('general')) {
+    return 'summary';
+  }
+  if (
+    errorCode.startsWith('is') ||
+    errorCode.startsWith('checkIs') ||
+    errorCode.startsWith('buildSummary') ||
+    errorCode === 'stringDecodersFailed'
+  ) {
+    return 'input';
+  }
+  return 'options';
+};
+
+/**
+ * A short preview of a value, for explanations and for the `actual` value of a processing error.
+ */
+export const previewValue = (value: any): string => {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  if (typeof value === 'function') {
+    return '[function]';
+  }
+  let preview: string;
+  try {
+    preview = JSON.stringify(value) ?? String(value);
+  } catch {
+    preview = String(value);
+  }
+  return preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH - 1)}…` : preview;
+};
+
+/**
+ * Creates a processing error, using the default explanation of the error code unless a specific one is given.
+ */
+export const createProcessingError = (
+  errorCode: ErrorObjectErrorResult,
+  details: Partial<Omit<ErrorObjectProcessingError, 'errorCode' | 'kind'>> = {},
+): ErrorObjectProcessingError => ({
+  errorCode,
+  kind: kindOf(errorCode),
+  explanation: EXPLANATIONS[errorCode],
+  ...details,
+});
+
+/**
+ * Creates the processing error of an error without code or message, naming what is missing.
+ */
+export const createUnknownCodeOrMessageError = (summary: ErrorSummary): ErrorObjectProcessingError => {
+  const missing: string[] = [];
+  if (typeof summary.value.code?.value !== 'string') {
+    missing.push('code was found using pathToCode');
+  }
+  if (typeof summary.value.message?.value !== 'string') {
+    missing.push('message was found using pathToMessage');
+  }
+  const location = summary.path !== undefined ? ` in the error at "${summary.path}"` : '';
+  return createProcessingError('unknownCodeOrMessage', {
+    summary,
+    path: summary.path,
+    actual: previewValue(summary.input),
+    explanation: `No ${missing.join(' and no ')}${location}`,
+  });
+};
+
+const describeExpectation = ({ operator, expected }: GuardFailure): string => {
+  switch (operator) {
+    case 'exists':
+      return expected ? 'to exist' : 'not to exist';
+    case 'equals':
+      return `to equal ${previewValue(expected)}`;
+    case 'in':
+      return `to be one of ${previewValue(expected)}`;
+    case 'matches':
+      return `to match ${expected}`;
+    case 'gte':
+      return `to be >= ${expected}`;
+    case 'lte':
+      return `to be <= ${expected}`;
+    case 'type':
+      return `to be of type ${expected}`;
+    case 'isArray':
+      return expected ? 'to be an array' : 'not to be an array';
+    case 'length':
+      return typeof expected === 'number'
+        ? `to have a length of ${expected}`
+        : `to have a length ${[
+            expected.gte !== undefined ? `>= ${expected.gte}` : undefined,
+            expected.lte !== undefined ? `<= ${expected.lte}` : undefined,
+          ]
+            .filter((part) => part !== undefined)
+            .join(' and ')}`;
+    default:
+      return `to pass ${operator}`;
+  }
+};
+
+/**
+ * Explains why a guard failed, e.g. `Expected "status" to be >= 400, found 200`.
+ */
+export const explainGuardFailure = (failure: GuardFailure): string => {
+  if (failure.operator === 'any') {
+    const failures = (failure.failures ?? []).map(explainGuardFailure);
+    return `Expected any rule to pass, but none did: ${failures.join('; ')}`;
+  }
+  if (failure.operator === 'not') {
+    const found = failure.path !== undefined ? `, found ${previewValue(failure.actual)}` : '';
+    return `Expected the rule inside not to fail, but it passed: ${previewValue(failure.expected)}${found}`;
+  }
+  return `Expected "${failure.path}" ${describeExpectation(failure)}, found ${previewValue(failure.actual)}`;
+};
+
+export const createGuardFailedError = (failure: GuardFailure): ErrorObjectProcessingError =>
+  createProcessingError('guardFailed', {
+    path: failure.path,
+    expected: failure.operator === 'any' ? undefined : { [failure.operator]: failure.expected },
+    actual: failure.path !== undefined ? previewValue(failure.actual) : undefined,
+    explanation: explainGuardFailure(failure),
+  });
+
+/**
+ * Lists the issues found by the schema, e.g. `Schema (zod) failed: status: Expected number, found string`.
+ */
+export const createSchemaFailedError = (vendor: string, issues: ErrorObjectSchemaIssue[]): ErrorObjectProcessingError =>
+  createProcessingError('schemaFailed', {
+    issues,
+    explanation: `Schema (${vendor}) failed: ${issues
+      .map((issue) => (issue.path !== undefined ? `${issue.path}: ${issue.message}` : issue.message))
+      .join('; ')}`,
+  });
@@ -0,0 +1,383 @@
+import {
+  ErrorObjectJsonSchemaType,
+  ErrorObjectSchema,
+  ErrorObjectSchemaIssue,
+  ErrorObjectStandardSchema,
+} from '../utils';
+import { formatPath, PathSegment } from './paths';
+
+/**
+ * A schema after validation: a Standard Schema validator, or a JSON Schema compiled into a validator.
+ */
+export type CompiledSchema = {
+  vendor: string;
+  validate: (input: any) => ErrorObjectSchemaIssue[] | 'schemaIsAsync';
+};
+
+type JsonSchemaValidator = (value: any, path: PathSegment[], issues: ErrorObjectSchemaIssue[]) => void;
+
+const JSON_SCHEMA_TYPES: ErrorObjectJsonSchemaType[] = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'object',
+  'array',
+  'null',
+];
+
+const isObject = (value: any): value is Record<string, any> =>
+  value !== undefined && value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isNumber = (value: any): value is number => typeof value === 'number' && !isNaN(value);
+
+const isLength = (value: any): value is number => Number.isInteger(value) && value >= 0;
+
+const jsonTypeOf = (value: any): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+};
+
+const hasJsonType = (value: any, type: ErrorObjectJsonSchemaType): boolean => {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return isNumber(value);
+    default:
+      return jsonTypeOf(value) === type;
+  }
+};
+
+/**
+ * Compares JSON values, objects and arrays included, as `enum` and `const` do.
+ */
+const isJsonEqual = (a: any, b: any): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  try {
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
+};
+
+const previewJson = (value: any): string => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const issueAt = (path: PathSegment[], message: string): ErrorObjectSchemaIssue =>
+  path.length > 0 ? { message, path: formatPath(path) } : { message };
+
+const isValid = (validator: JsonSchemaValidator, value: any, path: PathSegment[]): boolean => {
+  const issues: ErrorObjectSchemaIssue[] = [];
+  validator(value, path, issues);
+  return issues.length === 0;
+};
+
+const compileSchemaList = (schemas: any): JsonSchemaValidator[] | undefined => {
+  if (!Array.isArray(schemas) || schemas.length === 0) {
+    return undefined;
+  }
+  const validators: JsonSchemaValidator[] = [];
+  for (const schema of schemas) {
+    const validator = compileJsonSchema(schema);
+    if (validator === undefined) {
+      return undefined;
+    }
+    validators.push(validator);
+  }
+  return validators;
+};
+
+/**
+ * Compiles a JSON Schema into a validator collecting every issue found, or returns `undefined` when the schema uses a
+ * supported keyword with an invalid value. Unsupported keywords are ignored.
+ */
+const compileJsonSchema = (schema: any): JsonSchemaValidator | undefined => {
+  if (schema === true) {
+    return () => undefined;
+  }
+  if (schema === false) {
+    return (value, path, issues) => {
+      issues.push(issueAt(path, 'Expected no value'));
+    };
+  }
+  if (!isObject(schema)) {
+    return undefined;
+  }
+  const validators: JsonSchemaValidator[] = [];
+
+  if (schema.type !== undefined) {
+    const types: any[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length === 0 || types.some((type) => !JSON_SCHEMA_TYPES.includes(type))) {
+      return undefined;
+    }
+    validators.push((value, path, issues) => {
+      if (!types.some((type) => hasJsonType(value, type))) {
+        issues.push(issueAt(path, `Expected ${types.join(' or ')}, found ${jsonTypeOf(value)}`));
+      }
+    });
+  }
+  if (schema.enum !== undefined) {
+    const values = schema.enum;
+    if (!Array.isArray(values)) {
+      return undefined;
+    }
+    validators.push((value, path, issues) => {
+      if (!values.some((enumValue) => isJsonEqual(value, enumValue))) {
+        issues.push(issueAt(path, `Expected one of ${previewJson(values)}, found ${previewJson(value)}`));
+      }
+    });
+  }
+  if ('const' in schema) {
+    const constValue = schema.const;
+    validators.push((value, path, issues) => {
+      if (!isJsonEqual(value, constValue)) {
+        issues.push(issueAt(path, `Expected ${previewJson(constValue)}, found ${previewJson(value)}`));
+      }
+    });
+  }
+
+  // Object keywords, ignored for values that are not objects
+  const properties: Record<string, JsonSchemaValidator> = {};
+  if (schema.properties !== undefined) {
+    if (!isObject(schema.properties)) {
+      return undefined;
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      const validator = compileJsonSchema(propertySchema);
+      if (validator === undefined) {
+        return undefined;
+      }
+      properties[key] = validator;
+    }
+  }
+  const required: any[] = schema.required ?? [];
+  if (!Array.isArray(required) || required.some((key) => typeof key !== 'string')) {
+    return undefined;
+  }
+  let additionalProperties: JsonSchemaValidator | undefined;
+  if (schema.additionalProperties !== undefined) {
+    additionalProperties = compileJsonSchema(schema.additionalProperties);
+    if (additionalProperties === undefined) {
+      return undefined;
+    }
+  }
+  validators.push((value, path, issues) => {
+    if (!isObject(value)) {
+      return;
+    }
+    for (const key of required) {
+      if (value[key] === undefined) {
+        issues.push(issueAt(path, `Missing required property "${key}"`));
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const validator = properties.hasOwnProperty(key) ? properties[key] : additionalProperties;
+      if (propertyValue === undefined || validator === undefined) {
+        continue;
+      }
+      if (validator === additionalProperties && schema.additionalProperties === false) {
+        issues.push(issueAt(path, `Unexpected property "${key}"`));
+      } else {
+        validator(propertyValue, [...path, { type: 'key', key }], issues);
+      }
+    }
+  });
+
+  // Array keywords, ignored for values that are not arrays
+  let items: JsonSchemaValidator | JsonSchemaValidator[] | undefined;
+  if (schema.items !== undefined) {
+    items = Array.isArray(schema.items) ? compileSchemaList(schema.items) : compileJsonSchema(schema.items);
+    if (items === undefined) {
+      return undefined;
+    }
+  }
+  const { minItems, maxItems } = schema;
+  if ((minItems !== undefined && !isLength(minItems)) || (maxItems !== undefined && !isLength(maxItems))) {
+    return undefined;
+  }
+  validators.push((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      return;
+    }
+    if (minItems !== undefined && value.length < minItems) {
+      issues.push(issueAt(path, `Expected at least ${minItems} items, found ${value.length}`));
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      issues.push(issueAt(path, `Expected at most ${maxItems} items, found ${value.length}`));
+    }
+    value.forEach((item, index) => {
+      const validator = Array.isArray(items) ? items[index] : items;
+      validator?.(item, [...path, { type: 'index', index }], issues);
+    });
+  });
+
+  // String keywords, ignored for values that are not strings
+  const { minLength, maxLength } = schema;
+  if ((minLength !== undefined && !isLength(minLength)) || (maxLength !== undefined && !isLength(maxLength))) {
+    return undefined;
+  }
+  let pattern: RegExp | undefined;
+  if (schema.pattern !== undefined) {
+    try {
+      pattern = new RegExp(schema.pattern);
+    } catch {
+      return undefined;
+    }
+  }
+  validators.push((value, path, issues) => {
+    if (typeof value !== 'string') {
+      return;
+    }
+    if (minLength !== undefined && value.length < minLength) {
+      issues.push(issueAt(path, `Expected at least ${minLength} characters, found ${value.length}`));
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      issues.push(issueAt(path, `Expected at most ${maxLength} characters, found ${value.length}`));
+    }
+    if (pattern !== undefined && !pattern.test(value)) {
+      issues.push(issueAt(path, `Expected to match ${pattern}, found ${previewJson(value)}`));
+    }
+  });
+
+  // Number keywords, ignored for values that are not numbers
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+  if ([minimum, maximum, exclusiveMinimum, exclusiveMaximum].some((limit) => limit !== undefined && !isNumber(limit))) {
+    return undefined;
+  }
+  validators.push((value, path, issues) => {
+    if (!isNumber(value)) {
+      return;
+    }
+    if (minimum !== undefined && value < minimum) {
+      issues.push(issueAt(path, `Expected >= ${minimum}, found ${value}`));
+    }
+    if (maximum !== undefined && value > maximum) {
+      issues.push(issueAt(path, `Expected <= ${maximum}, found ${value}`));
+    }
+    if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) {
+      issues.push(issueAt(path, `Expected > ${exclusiveMinimum}, found ${value}`));
+    }
+    if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+      issues.push(issueAt(path, `Expected < ${exclusiveMaximum}, found ${value}`));
+    }
+  });
+
+  // Combinators
+  if (schema.allOf !== undefined) {
+    const allOf = compileSchemaList(schema.allOf);
+    if (allOf === undefined) {
+      return undefined;
+    }
+    validators.push((value, path, issues) => allOf.forEach((validator) => validator(value, path, issues)));
+  }
+  if (schema.anyOf !== undefined) {
+    const anyOf = compileSchemaList(schema.anyOf);
+    if (anyOf === undefined) {
+      return undefined;
+    }
+    validators.push((value, path, issues) => {
+      if (!anyOf.some((validator) => isValid(validator, value, path))) {
+        issues.push(issueAt(path, 'Expected to match at least one schema of anyOf'));
+      }
+    });
+  }
+  if (schema.oneOf !== undefined) {
+    const oneOf = compileSchemaList(schema.oneOf);
+    if (oneOf === undefined) {
+      return undefined;
+    }
+    validators.push((value, path, issues) => {
+      const matches = oneOf.filter((validator) => isValid(validator, value, path)).length;
+      if (matches !== 1) {
+        issues.push(issueAt(path, `Expected to match exactly one schema of oneOf, matched ${matches}`));
+      }
+    });
+  }
+  if (schema.not !== undefined) {
+    const not = compileJsonSchema(schema.not);
+    if (not === undefined) {
+      return undefined;
+    }
+    validators.push((value, path, issues) => {
+      if (isValid(not, value, path)) {
+        issues.push(issueAt(path, 'Expected not to match the schema of not'));
+      }
+    });
+  }
+
+  return (value, path, issues) => validators.forEach((validator) => validator(value, path, issues));
+};
+
+/**
+ * Formats the path of a Standard Schema issue, e.g. `['errors', 0, { key: 'code' }]` becomes `errors[0].code`.
+ */
+const formatIssuePath = (path: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>): string =>
+  formatPath(
+    path.map((segment): PathSegment => {
+      const key = typeof segment === 'object' ? segment.key : segment;
+      return typeof key === 'number' ? { type: 'index', index: key } : { type: 'key', key: String(key) };
+    }),
+  );
+
+/**
+ * Validates the schema, returning `undefined` when it is neither a Standard Schema v1 validator nor a valid JSON
+ * Schema.
+ */
+export const compileSchema = (schema: ErrorObjectSchema): CompiledSchema | undefined => {
+  // Some validators, like arktype types, are functions
+  if ((typeof schema === 'object' || typeof schema === 'function') && schema !== null && '~standard' in schema) {
+    const standard: ErrorObjectStandardSchema['~standard'] = schema['~standard'];
+    if (
+      typeof standard !== 'object' ||
+      standard === null ||
+      standard.version !== 1 ||
+      typeof standard.validate !== 'function'
+    ) {
+      return undefined;
+    }
+    return {
+      vendor: typeof standard.vendor === 'string' ? standard.vendor : 'unknown',
+      validate: (input) => {
+        const result = standard.validate(input);
+        if (result instanceof Promise) {
+          // The result is never used, so a rejection must not become an unhandled rejection
+          result.catch(() => undefined);
+          return 'schemaIsAsync';
+        }
+        return (result.issues ?? []).map((issue) =>
+          issue.path !== undefined && issue.path.length > 0
+            ? { message: issue.message, path: formatIssuePath(issue.path) }
+            : { message: issue.message },
+        );
+      },
+    };
+  }
+  const validator = compileJsonSchema(schema);
+  if (validator === undefined) {
+    return undefined;
+  }
+  return {
+    vendor: 'json-schema',
+    validate: (input) => {
+      const issues: ErrorObjectSchemaIssue[] = [];
+      validator(input, [], issues);
+      return issues;
+    },
+  };
+};
@@ -0,0 +1,216 @@
+import { ErrorObjectStringDecoderName, ErrorObjectStringDecoding, SHOW_ERROR_LOGS } from '../utils';
+import { parseXml } from './xml';
+
+/**
+ * A string decoder after validation. Built-in decoders also report what they changed while decoding.
+ */
+export type CompiledStringDecoder = {
+  name: string;
+  decode: (input: string, maxMessageLength: number | undefined) => DecodedString | undefined;
+};
+
+type DecodedString = {
+  value: Record<string, any>;
+  ignoredTrailingText?: string;
+  truncatedMessageLength?: number;
+};
+
+export const DEFAULT_STRING_DECODERS: ErrorObjectStringDecoderName[] = ['json', 'html', 'formUrlEncoded', 'text'];
+
+const BOM = '\uFEFF';
+const TRAILING_TEXT_PREVIEW_LENGTH = 50;
+const HTML_DOCUMENT = /^\s*<(!doctype\s+html|html|head|body|title|h1)[\s>]/i;
+// Values can contain `=`, e.g. the padding of a base64 `state`, so pairs are split on their first `=` only
+const FORM_URL_ENCODED = /^[\w.~%+-]+=[^&\s]*(&[\w.~%+-]+=[^&\s]*)*$/;
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const isObject = (value: any): value is Record<string, any> =>
+  value !== undefined && value !== null && typeof value === 'object';
+
+const truncateMessage = (
+  message: string,
+  maxMessageLength: number | undefined,
+): { message: string; truncatedMessageLength?: number } => {
+  if (maxMessageLength === undefined || message.length <= maxMessageLength) {
+    return { message };
+  }
+  return { message: `${message.slice(0, maxMessageLength - 1)}…`, truncatedMessageLength: message.length };
+};
+
+/**
+ * Finds where the JSON object or array at the beginning of the string ends, or returns `undefined` when it never ends.
+ */
+const endOfJsonValue = (input: string, start: number): number | undefined => {
+  let depth = 0;
+  let isInString = false;
+  for (let index = start; index < input.length; index++) {
+    const char = input[index];
+    if (isInString) {
+      if (char === '\\') {
+        index++;
+      } else if (char === '"') {
+        isInString = false;
+      }
+    } else if (char === '"') {
+      isInString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        return index + 1;
+      }
+    }
+  }
+  return undefined;
+};
+
+const decodeJson = (input: string): DecodedString | undefined => {
+  try {
+    const json = JSON.parse(input);
+    return isObject(json) ? { value: json } : undefined;
+  } catch {
+    // Maybe there is some text after the JSON value
+  }
+  const start = input.search(/\S/);
+  if (input[start] !== '{' && input[start] !== '[') {
+    return undefined;
+  }
+  const end = endOfJsonValue(input, start);
+  if (end === undefined) {
+    return undefined;
+  }
+  try {
+    const json = JSON.parse(input.slice(start, end));
+    const trailingText = input.slice(end).trim();
+    return isObject(json)
+      ? { value: json, ignoredTrailingText: trailingText.slice(0, TRAILING_TEXT_PREVIEW_LENGTH) }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const decodeHtmlText = (html: string): string =>
+  html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const charCode = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return isNaN(charCode) ? entity : String.fromCharCode(charCode);
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const decodeHtml = (input: string, maxMessageLength: number | undefined): DecodedString | undefined => {
+  if (!HTML_DOCUMENT.test(input)) {
+    return undefined;
+  }
+  const title = decodeHtmlText(/<title[^>]*>([\s\S]*?)<\/title>/i.exec(input)?.[1] ?? '');
+  const h1 = decodeHtmlText(/<h1[^>]*>([\s\S]*?)<\/h1>/i.exec(input)?.[1] ?? '');
+  const body = /<body[^>]*>([\s\S]*?)(<\/body>|$)/i.exec(input)?.[1];
+  const text = decodeHtmlText((body ?? input).replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' '));
+  const { message, truncatedMessageLength } = truncateMessage(title || h1 || text, maxMessageLength);
+  if (!message) {
+    return undefined;
+  }
+  // Proxies and servers usually start the title with the status, e.g. `502 Bad Gateway`
+  const status = /^([1-5]\d\d)\b/.exec(title || h1)?.[1];
+  const value: Record<string, any> = { code: status ?? 'unknown', message };
+  if (status !== undefined) {
+    value.numberCode = Number(status);
+  }
+  if (title) {
+    value.title = title;
+  }
+  if (h1) {
+    value.h1 = h1;
+  }
+  return { value, truncatedMessageLength };
+};
+
+const decodeFormUrlEncoded = (input: string): DecodedString | undefined => {
+  const trimmed = input.trim();
+  if (!FORM_URL_ENCODED.test(trimmed)) {
+    return undefined;
+  }
+  const value: Record<string, any> = {};
+  try {
+    for (const pair of trimmed.split('&')) {
+      const separatorIndex = pair.indexOf('=');
+      const key = pair.slice(0, separatorIndex);
+      const keyValue = pair.slice(separatorIndex + 1);
+      value[decodeURIComponent(key.replace(/\+/g, ' '))] = decodeURIComponent(keyValue.replace(/\+/g, ' '));
+    }
+  } catch {
+    // Malformed percent-encoding
+    return undefined;
+  }
+  return { value };
+};
+
+const decodeXml = (input: string): DecodedString | undefined => {
+  const value = parseXml(input);
+  return value !== undefined ? { value } : undefined;
+};
+
+const decodeText = (input: string, maxMessageLength: number | undefined): DecodedString | undefined => {
+  const { message, truncatedMessageLength } = truncateMessage(input, maxMessageLength);
+  return { value: { code: 'unknown', message }, truncatedMessageLength };
+};
+
+export const BUILT_IN_STRING_DECODERS: Record<ErrorObjectStringDecoderName, CompiledStringDecoder['decode']> = {
+  json: decodeJson,
+  html: decodeHtml,
+  formUrlEncoded: decodeFormUrlEncoded,
+  xml: decodeXml,
+  text: decodeText,
+};
+
+/**
+ * Tries the decoders in order, after removing the byte order mark, and returns the first object decoded together with
+ * the decoders tried.
+ */
+export const decodeString = (
+  input: string,
+  decoders: CompiledStringDecoder[],
+  maxMessageLength: number | undefined,
+): { value: Record<string, any> | undefined; decoding: ErrorObjectStringDecoding | undefined } => {
+  const strippedBom = input.startsWith(BOM);
+  const text = strippedBom ? input.slice(BOM.length) : input;
+  const rejected: string[] = [];
+  for (const decoder of decoders) {
+    let decoded: DecodedString | undefined;
+    try {
+      decoded = decoder.decode(text, maxMessageLength);
+    } catch (error) {
+      SHOW_ERROR_LOGS &&
+        console.log('[ErrorObjectFromPayload]', `Error during string decoder "${decoder.name}":`, error);
+    }
+    if (decoded === undefined || !isObject(decoded.value)) {
+      rejected.push(decoder.name);
+      continue;
+    }
+    const decoding: ErrorObjectStringDecoding = { decoder: decoder.name, rejected };
+    if (strippedBom) {
+      decoding.strippedBom = true;
+    }
+    if (decoded.ignoredTrailingText !== undefined) {
+      decoding.ignoredTrailingText = decoded.ignoredTrailingText;
+    }
+    if (decoded.truncatedMessageLength !== undefined) {
+      decoding.truncatedMessageLength = decoded.truncatedMessageLength;
+    }
+    return { value: decoded.value, decoding };
+  }
+  return { value: undefined, decoding: undefined };
+};
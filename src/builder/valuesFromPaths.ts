@@ -1,161 +1,313 @@
-import { ErrorObjectBuildOptions, ErrorObjectErrorResult } from '../utils';
-import { findNestedValueForPath } from './index';
+import {
+  ErrorObjectAutoDetectReport,
+  ErrorObjectCoercionKind,
+  ErrorObjectCoercionRecord,
+  ErrorObjectValue,
+  ErrorObjectValueMode,
+} from '../utils';
+import { detectCandidates } from './autoDetect';
+import { isNativeErrorSnapshot, NATIVE_ERROR_PATHS } from './nativeError';
+import {
+  CompiledBuildOptions,
+  CompiledFieldOptions,
+  CompiledPath,
+  compilePath,
+  DEFAULT_FIELD_OPTIONS,
+  findCompiledPathMatches,
+} from './compile';
 
-export const __processAllValuesFromPaths = (
-  objectToParse: any,
-  options: ErrorObjectBuildOptions,
-):
-  | {
-      codeBeforeTransform: string | undefined;
-      codePath: string | undefined;
-      numberCodeBeforeTransform: number | undefined;
-      numberCodePath: string | undefined;
-      messageBeforeTransform: string | undefined;
-      messagePath: string | undefined;
-      detailsBeforeTransform: string | undefined;
-      detailsPath: string | undefined;
-      domainBeforeTransform: string | undefined;
-      domainPath: string | undefined;
-    }
-  | ErrorObjectErrorResult => {
-  let codeBeforeTransform: string | undefined;
-  let codePath: string | undefined;
-  if (!('pathToCode' in options)) {
-    return 'pathToCodeIsInvalid';
-  }
-  if (!Array.isArray(options.pathToCode)) {
-    return 'pathToCodeIsNotAnArray';
-  }
-  for (const path of options.pathToCode) {
-    if (typeof path !== 'string') {
-      return 'pathToCodeValuesAreNotStrings';
-    }
-    const found = findNestedValueForPath(objectToParse, path);
-    if (found !== undefined && found !== null) {
-      if (typeof found === 'string') {
-        codePath = path;
-        codeBeforeTransform = found;
-        break;
-      }
-      if (Array.isArray(found) || typeof found === 'object') {
-        codePath = path;
-        codeBeforeTransform = JSON.stringify(found);
-        break;
-      }
-    }
-  }
+export type FoundValue<V> = {
+  value: V;
+  path: string;
+  coercion?: ErrorObjectCoercionRecord;
+  joined?: { path: string; value: V; coercion?: ErrorObjectCoercionRecord }[];
+};
+
+/**
+ * The values found for a single error, before the transform function is applied.
+ */
+export type ProcessedValues = {
+  code?: FoundValue<string>;
+  numberCode?: FoundValue<number>;
+  message?: FoundValue<string>;
+  details?: FoundValue<ErrorObjectValue>;
+  domain?: FoundValue<string>;
+  fields?: Record<string, FoundValue<ErrorObjectValue | null> | undefined>;
+  autoDetect?: ErrorObjectAutoDetectReport;
+};
+
+type Target = 'string' | 'number' | 'any';
+
+/**
+ * Paths checked when parsing a response using `fromResponse()`, if the payload has no number code or no message. When
+ * the status text is empty too, which it always is over HTTP/2, the message is built from the status, e.g. `HTTP 502`.
+ */
+const RESPONSE_PATHS = {
+  numberCode: [compilePath('$response.status')],
+  message: [compilePath('$response.statusText')],
+};
+
+const NUMERIC_STRING = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
 
-  let numberCodeBeforeTransform: number | undefined;
-  let numberCodePath: string | undefined;
-  if (!('pathToNumberCode' in options)) {
-    return 'pathToNumberCodeIsInvalid';
+/**
+ * Extra fields also accept numbers and booleans in the `stringify` mode, e.g. `retryAfter: 120` becomes `'120'`, so a
+ * field that was found is never lost. In the `raw` mode they keep `null` too, e.g. the JSON-RPC `id` of a Parse error.
+ */
+const isAcceptedForMode = (value: any, mode: ErrorObjectValueMode, isExtraField: boolean): boolean => {
+  if (value === undefined) {
+    return false;
   }
-  if (!Array.isArray(options.pathToNumberCode)) {
-    return 'pathToNumberCodeIsNotAnArray';
+  if (value === null) {
+    return mode === 'raw' && isExtraField;
   }
-  for (const path of options.pathToNumberCode) {
-    if (typeof path !== 'string') {
-      return 'pathToNumberCodeValuesAreNotStrings';
-    }
-    const found = findNestedValueForPath(objectToParse, path);
-    if (found !== undefined && found !== null && typeof found === 'number' && !isNaN(found)) {
-      numberCodePath = path;
-      numberCodeBeforeTransform = found;
-      break;
-    }
+  if (mode === 'raw') {
+    return true;
+  }
+  if (mode === 'string') {
+    return typeof value === 'string';
+  }
+  if (isExtraField && ((typeof value === 'number' && !isNaN(value)) || typeof value === 'boolean')) {
+    return true;
   }
+  return typeof value === 'string' || typeof value === 'object';
+};
+
+const applyMode = (value: any, mode: ErrorObjectValueMode): any =>
+  mode === 'raw' || typeof value === 'string' ? value : JSON.stringify(value);
+
+const typeOf = (value: any): string => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
 
-  let messageBeforeTransform: string | undefined;
-  let messagePath: string | undefined;
-  if (!('pathToMessage' in options)) {
-    return 'pathToMessageIsInvalid';
+/**
+ * Applies the enabled coercions to a found value. Returns `undefined` as the value when it should be treated as
+ * missing, e.g. an empty string with `emptyAsMissing`.
+ */
+const coerceValue = (
+  value: any,
+  { coerce }: CompiledFieldOptions,
+  target: Target,
+): { value: any; coercion: ErrorObjectCoercionRecord | undefined } => {
+  if (coerce === undefined) {
+    return { value, coercion: undefined };
   }
-  if (!Array.isArray(options.pathToMessage)) {
-    return 'pathToMessageIsNotAnArray';
+  const applied: ErrorObjectCoercionKind[] = [];
+  let coerced = value;
+  if (coerce.trim && typeof coerced === 'string' && coerced.trim() !== coerced) {
+    coerced = coerced.trim();
+    applied.push('trim');
   }
-  for (const path of options.pathToMessage) {
-    if (typeof path !== 'string') {
-      return 'pathToMessageValuesAreNotStrings';
-    }
-    const found = findNestedValueForPath(objectToParse, path);
-    if (found !== undefined && found !== null) {
-      if (typeof found === 'string') {
-        messagePath = path;
-        messageBeforeTransform = found;
-        break;
-      }
-      if (Array.isArray(found) || typeof found === 'object') {
-        messagePath = path;
-        messageBeforeTransform = JSON.stringify(found);
-        break;
-      }
-    }
+  if (coerce.emptyAsMissing && coerced === '') {
+    return { value: undefined, coercion: undefined };
   }
-
-  let detailsBeforeTransform: string | undefined;
-  let detailsPath: string | undefined;
-  if (!('pathToDetails' in options)) {
-    return 'pathToDetailsIsInvalid';
+  if (
+    coerce.numericStringToNumber &&
+    target !== 'string' &&
+    typeof coerced === 'string' &&
+    NUMERIC_STRING.test(coerced.trim())
+  ) {
+    coerced = Number(coerced);
+    applied.push('numericStringToNumber');
   }
-  if (!Array.isArray(options.pathToDetails)) {
-    return 'pathToDetailsIsNotAnArray';
+  if (
+    coerce.primitiveToString &&
+    target !== 'number' &&
+    ((typeof coerced === 'number' && !isNaN(coerced)) || typeof coerced === 'boolean')
+  ) {
+    coerced = String(coerced);
+    applied.push('primitiveToString');
   }
-  for (const path of options.pathToDetails) {
-    if (typeof path !== 'string') {
-      return 'pathToDetailsValuesAreNotStrings';
-    }
-    const found = findNestedValueForPath(objectToParse, path);
-    if (found !== undefined && found !== null) {
-      if (typeof found === 'string') {
-        detailsPath = path;
-        detailsBeforeTransform = found;
-        break;
+  if (applied.length === 0) {
+    return { value: coerced, coercion: undefined };
+  }
+  return {
+    value: coerced,
+    coercion: { applied, originalType: typeOf(value), originalValue: value, value: coerced },
+  };
+};
+
+/**
+ * Returns the values found using the paths, in order, that are accepted for the target and the field options.
+ * With the `first` strategy only the first value is returned, otherwise every value is returned once, even if it was
+ * matched by several paths. With the `join` strategy, the values are joined into a single value.
+ */
+const findValues = (
+  objectToParse: any,
+  paths: CompiledPath[],
+  fieldOptions: CompiledFieldOptions,
+  target: Target,
+  isExtraField: boolean = false,
+): FoundValue<any>[] => {
+  const found: FoundValue<any>[] = [];
+  const foundPaths = new Set<string>();
+  for (const path of paths) {
+    for (const match of findCompiledPathMatches(objectToParse, path)) {
+      if (foundPaths.has(match.path)) {
+        continue;
+      }
+      const { value, coercion } = coerceValue(match.value, fieldOptions, target);
+      const isAccepted =
+        target === 'number'
+          ? typeof value === 'number' && !isNaN(value)
+          : isAcceptedForMode(value, fieldOptions.mode, isExtraField);
+      if (!isAccepted) {
+        continue;
       }
-      if (Array.isArray(found) || typeof found === 'object') {
-        detailsPath = path;
-        detailsBeforeTransform = JSON.stringify(found);
-        break;
+      const foundValue: FoundValue<any> = {
+        value: target === 'number' ? value : applyMode(value, fieldOptions.mode),
+        path: match.path,
+      };
+      if (coercion !== undefined) {
+        foundValue.coercion = coercion;
       }
+      if (fieldOptions.strategy === 'first') {
+        return [foundValue];
+      }
+      found.push(foundValue);
+      foundPaths.add(match.path);
     }
   }
-
-  let domainBeforeTransform: string | undefined;
-  let domainPath: string | undefined;
-  if (!('pathToDomain' in options)) {
-    return 'pathToDomainIsInvalid';
-  }
-  if (!Array.isArray(options.pathToDomain)) {
-    return 'pathToDomainIsNotAnArray';
+  if (fieldOptions.strategy === 'join' && found.length > 1) {
+    return [
+      {
+        value: found.map((foundValue) => foundValue.value).join(fieldOptions.separator),
+        path: found.map((foundValue) => foundValue.path).join(', '),
+        joined: found,
+      },
+    ];
   }
-  for (const path of options.pathToDomain) {
-    if (typeof path !== 'string') {
-      return 'pathToDomainValuesAreNotStrings';
+  return found;
+};
+
+/**
+ * Finds the values of all fields. Usually returns a single {@link ProcessedValues}, except when a field uses the
+ * `all` strategy and several values were found for it, in which case one {@link ProcessedValues} is returned for each
+ * value, sharing the values of the other fields.
+ */
+export const __processAllValuesFromPaths = (objectToParse: any, compiled: CompiledBuildOptions): ProcessedValues[] => {
+  const { fieldOptions } = compiled;
+
+  // Native errors fall back to their own properties, e.g. the name is used as code when no code is found
+  const isNativeError = isNativeErrorSnapshot(objectToParse);
+  const code = findValues(
+    objectToParse,
+    isNativeError ? [...compiled.pathToCode, ...NATIVE_ERROR_PATHS.code] : compiled.pathToCode,
+    fieldOptions.code,
+    'string',
+  );
+  const numberCode = findValues(
+    objectToParse,
+    isNativeError ? [...compiled.pathToNumberCode, ...NATIVE_ERROR_PATHS.numberCode] : compiled.pathToNumberCode,
+    fieldOptions.numberCode,
+    'number',
+  );
+  const message = findValues(
+    objectToParse,
+    isNativeError ? [...compiled.pathToMessage, ...NATIVE_ERROR_PATHS.message] : compiled.pathToMessage,
+    fieldOptions.message,
+    'string',
+  );
+  if (compiled.responseVariables !== undefined) {
+    const [status] = findValues(objectToParse, RESPONSE_PATHS.numberCode, DEFAULT_FIELD_OPTIONS, 'number');
+    if (numberCode.length === 0 && status !== undefined) {
+      numberCode.push(status);
+      // The status is the code too, unless the payload has one
+      if (code.length === 0) {
+        code.push({ value: String(status.value), path: status.path });
+      }
+    }
+    if (message.length === 0) {
+      const messageOptions = {
+        ...fieldOptions.message,
+        coerce: { ...fieldOptions.message.coerce, emptyAsMissing: true },
+      };
+      message.push(...findValues(objectToParse, RESPONSE_PATHS.message, messageOptions, 'string'));
     }
-    const found = findNestedValueForPath(objectToParse, path);
-    if (found !== undefined && found !== null) {
-      if (typeof found === 'string') {
-        domainPath = path;
-        domainBeforeTransform = found;
-        break;
+    if (message.length === 0 && status !== undefined) {
+      message.push({ value: `HTTP ${status.value}`, path: status.path });
+    }
+  }
+  const details = findValues(
+    objectToParse,
+    compiled.pathToDetails,
+    fieldOptions.details,
+    fieldOptions.details.mode === 'raw' ? 'any' : 'string',
+  );
+  const domain = findValues(
+    objectToParse,
+    isNativeError ? [...compiled.pathToDomain, ...NATIVE_ERROR_PATHS.domain] : compiled.pathToDomain,
+    fieldOptions.domain,
+    'string',
+  );
+
+  let autoDetect: ErrorObjectAutoDetectReport | undefined;
+  if (compiled.options.autoDetect) {
+    autoDetect = detectCandidates(objectToParse);
+    // Fields found using paths keep their values, the others use the best candidate not used by another field
+    const foundByField = { message, code, domain, details };
+    const usedPaths = new Set(
+      Object.values(foundByField).reduce<string[]>((paths, found) => [...paths, ...found.map(({ path }) => path)], []),
+    );
+    for (const field of ['message', 'code', 'domain', 'details'] as const) {
+      const candidates = (autoDetect[field] ?? []).filter((candidate) => !usedPaths.has(candidate.path));
+      if (foundByField[field].length > 0 || candidates.length === 0) {
+        continue;
       }
-      if (Array.isArray(found) || typeof found === 'object') {
-        domainPath = path;
-        domainBeforeTransform = JSON.stringify(found);
-        break;
+      // Numeric codes are scored as candidates too, so the picked one is converted, e.g. `1234` becomes `'1234'`
+      const options =
+        field === 'code'
+          ? { ...fieldOptions.code, coerce: { ...fieldOptions.code.coerce, primitiveToString: true } }
+          : fieldOptions[field];
+      const found = findValues(
+        objectToParse,
+        candidates.map((candidate) => compilePath(candidate.path)),
+        options,
+        field === 'details' && fieldOptions.details.mode === 'raw' ? 'any' : 'string',
+      );
+      for (const foundValue of found) {
+        usedPaths.add(foundValue.path);
+        const candidate = candidates.find(({ path }) => path === foundValue.path);
+        if (candidate !== undefined) {
+          candidate.picked = true;
+        }
       }
+      foundByField[field].push(...found);
     }
   }
 
-  return {
-    codeBeforeTransform,
-    codePath,
-    numberCodeBeforeTransform,
-    numberCodePath,
-    messageBeforeTransform,
-    messagePath,
-    detailsBeforeTransform,
-    detailsPath,
-    domainBeforeTransform,
-    domainPath,
+  let fields: Record<string, FoundValue<ErrorObjectValue | null>[]> | undefined;
+  if (compiled.pathToFields !== undefined) {
+    fields = {};
+    for (const [field, paths] of Object.entries(compiled.pathToFields)) {
+      const options = fieldOptions.fields[field] ?? DEFAULT_FIELD_OPTIONS;
+      fields[field] = findValues(objectToParse, paths, options, options.mode === 'raw' ? 'any' : 'string', true);
+    }
+  }
+
+  const valuesAt = (index: number): ProcessedValues => {
+    let fieldsAt: ProcessedValues['fields'];
+    if (fields !== undefined) {
+      fieldsAt = {};
+      for (const [field, values] of Object.entries(fields)) {
+        fieldsAt[field] = values[fieldOptions.fields[field]?.strategy === 'all' ? index : 0];
+      }
+    }
+    return {
+      code: code[fieldOptions.code.strategy === 'all' ? index : 0],
+      numberCode: numberCode[fieldOptions.numberCode.strategy === 'all' ? index : 0],
+      message: message[fieldOptions.message.strategy === 'all' ? index : 0],
+      details: details[fieldOptions.details.strategy === 'all' ? index : 0],
+      domain: domain[fieldOptions.domain.strategy === 'all' ? index : 0],
+      fields: fieldsAt,
+      autoDetect,
+    };
   };
+
+  const count = Math.max(
+    1,
+    ...[code, numberCode, message, details, domain, ...Object.values(fields ?? {})].map((values) => values.length),
+  );
+  const processedValues: ProcessedValues[] = [];
+  for (let index = 0; index < count; index++) {
+    processedValues.push(valuesAt(index));
+  }
+  return processedValues;
 };
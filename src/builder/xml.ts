@@ -0,0 +1,157 @@
+type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: Record<string, any>;
+  hasChildren: boolean;
+  text: string;
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+/**
+ * Removes the namespace prefix, e.g. `soap:Envelope` becomes `Envelope`, so paths don't depend on the prefix chosen
+ * by the server.
+ */
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const charCode = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return isNaN(charCode) ? entity : String.fromCharCode(charCode);
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+
+const createElement = (tag: string): XmlElement | undefined => {
+  const name = /^[^\s/>]+/.exec(tag)?.[0];
+  if (name === undefined) {
+    return undefined;
+  }
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE.lastIndex = name.length;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE.exec(tag)) !== null) {
+    const attributeName = match[1] ?? '';
+    if (attributeName !== 'xmlns' && !attributeName.startsWith('xmlns:')) {
+      attributes[`@${localName(attributeName)}`] = decodeEntities(match[3] ?? match[4] ?? '');
+    }
+  }
+  return { name: localName(name), attributes, children: {}, hasChildren: false, text: '' };
+};
+
+/**
+ * Elements containing only text become strings, the others become objects with their attributes prefixed by `@`,
+ * their child elements (repeated elements become arrays) and their text as `#text`.
+ */
+const valueOf = (element: XmlElement): any => {
+  const text = element.text.trim();
+  if (!element.hasChildren && Object.keys(element.attributes).length === 0) {
+    return text;
+  }
+  const value: Record<string, any> = { ...element.attributes, ...element.children };
+  if (text) {
+    value['#text'] = text;
+  }
+  return value;
+};
+
+const appendChild = (parent: XmlElement, name: string, value: any) => {
+  const existing = parent.children[name];
+  // Element values are never arrays, so an array means the element is repeated
+  if (existing === undefined) {
+    parent.children[name] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    parent.children[name] = [existing, value];
+  }
+  parent.hasChildren = true;
+};
+
+/**
+ * Parses an XML document into an addressable tree, e.g. `<error><code>E1</code></error>` becomes
+ * `{ error: { code: 'E1' } }`. Comments, processing instructions and the doctype are ignored, CDATA sections are kept
+ * as text. Returns `undefined` when the string is not a well-formed XML document.
+ */
+export const parseXml = (input: string): Record<string, any> | undefined => {
+  const root: XmlElement = { name: '', attributes: {}, children: {}, hasChildren: false, text: '' };
+  const stack: XmlElement[] = [root];
+  let index = input.search(/\S/);
+  if (index === -1 || input[index] !== '<') {
+    return undefined;
+  }
+  while (index < input.length) {
+    const current = stack[stack.length - 1] ?? root;
+    const open = input.indexOf('<', index);
+    const text = input.slice(index, open === -1 ? input.length : open);
+    if (text.trim()) {
+      if (current === root) {
+        return undefined;
+      }
+      current.text += decodeEntities(text);
+    }
+    if (open === -1) {
+      break;
+    }
+
+    let end: number;
+    if (input.startsWith('<!--', open)) {
+      end = input.indexOf('-->', open + 4);
+      index = end === -1 ? -1 : end + 3;
+    } else if (input.startsWith('<![CDATA[', open)) {
+      end = input.indexOf(']]>', open + 9);
+      if (end !== -1) {
+        current.text += input.slice(open + 9, end);
+      }
+      index = end === -1 ? -1 : end + 3;
+    } else if (input.startsWith('<?', open)) {
+      end = input.indexOf('?>', open + 2);
+      index = end === -1 ? -1 : end + 2;
+    } else if (input.startsWith('<!', open)) {
+      // The doctype, which can contain an internal subset between brackets
+      const bracket = input.indexOf('[', open);
+      const close = input.indexOf('>', open);
+      end = bracket !== -1 && bracket < close ? input.indexOf(']>', bracket) : close;
+      index = end === -1 ? -1 : input.indexOf('>', end) + 1;
+    } else if (input[open + 1] === '/') {
+      end = input.indexOf('>', open);
+      const name = end === -1 ? undefined : localName(input.slice(open + 2, end).trim());
+      if (name === undefined || current === root || name !== current.name) {
+        return undefined;
+      }
+      stack.pop();
+      appendChild(stack[stack.length - 1] ?? root, current.name, valueOf(current));
+      index = end + 1;
+    } else {
+      end = input.indexOf('>', open);
+      const tag = end === -1 ? '' : input.slice(open + 1, end);
+      const isSelfClosing = tag.endsWith('/');
+      const element = createElement(isSelfClosing ? tag.slice(0, -1) : tag);
+      if (element === undefined || (current === root && root.hasChildren)) {
+        return undefined;
+      }
+      if (isSelfClosing) {
+        appendChild(current, element.name, valueOf(element));
+      } else {
+        stack.push(element);
+      }
+      index = end + 1;
+    }
+    if (index <= 0) {
+      return undefined;
+    }
+  }
+  if (stack.length !== 1 || !root.hasChildren) {
+    return undefined;
+  }
+  return root.children;
+};
@@ -1,22 +1,46 @@
 import { ErrorObject } from '@smbcheeky/error-object';
-import { buildSummariesFromObject, buildSummaryFromObject, findNestedValueForPath } from './builder';
+import { buildSummariesFromError, buildSummariesFromObject, findNestedValueForPath, hasErrorsArray } from './builder';
+import { AnyBuildOptions, CompiledBuildOptions, compileBuildOptions, withPathVariables } from './builder/compile';
+import { evaluateGuard } from './builder/guard';
+import { createNativeErrorSnapshot, isNativeError, isNativeErrorSnapshot } from './builder/nativeError';
+import {
+  createGuardFailedError,
+  createProcessingError,
+  createSchemaFailedError,
+  createUnknownCodeOrMessageError,
+  previewValue,
+} from './builder/processingErrors';
+import { decodeString } from './builder/stringDecoders';
 import {
   DEFAULT_BUILD_OPTIONS,
   ErrorObjectBuildOptions,
   ErrorObjectErrorResult,
+  ErrorObjectFieldOptionsMap,
+  ErrorObjectFields,
   ErrorObjectProcessingError,
+  ErrorObjectProfile,
+  ErrorObjectRejectedProfile,
+  ErrorObjectResponse,
+  ErrorObjectSchemaIssue,
+  ErrorObjectValue,
   ErrorSummary,
   SHOW_ERROR_LOGS,
   setShowErrorLogs,
 } from './utils';
 
+export * from './presets';
 export * from './utils';
 
 /**
  * The {@link ErrorObjectFromPayload} class is an alternative way to create an {@link ErrorObject} from anything
  * resembling an error, even request payloads. It also chains errors using the `nextErrors` property.
+ * The `F` type parameter contains the names of the extra fields configured using the `pathToFields` option, and the
+ * `O` type parameter contains the `fieldOptions` option, used to type the fields kept in the `raw` mode.
  */
-export class ErrorObjectFromPayload extends ErrorObject {
+export class ErrorObjectFromPayload<
+  F extends string = string,
+  O extends ErrorObjectFieldOptionsMap<F> = {},
+> extends ErrorObject {
   static get SHOW_ERROR_LOGS() {
     return SHOW_ERROR_LOGS;
   }
@@ -25,10 +49,111 @@ export class ErrorObjectFromPayload extends ErrorObject {
   }
   static DEFAULT_FALLBACK_TAG = 'fallback-error-object';
 
-  nextErrors?: ErrorObjectFromPayload[];
+  nextErrors?: ErrorObjectFromPayload<F, O>[];
+
+  /**
+   * The errors found in a nested errors array of this error, when the `nestedErrors` option is enabled.
+   */
+  children?: ErrorObjectFromPayload<F, O>[];
+
+  /**
+   * The errors built from the elements rejected by the `elementGuard` option, when `rejectedElements` is `'warnings'`.
+   */
+  warnings?: ErrorObjectFromPayload<F, O>[];
+
+  /**
+   * The error created from the `cause` of a native error, which can have its own `cause`.
+   */
+  cause?: ErrorObjectFromPayload<F, O>;
+
+  /**
+   * The extra fields found using the `pathToFields` option, e.g. `requestId` or `traceId`.
+   */
+  fields?: ErrorObjectFields<F, O>;
+
+  /**
+   * The details kept as the original structured value, when the details mode is `raw` and the value found is not a
+   * string. The `details` property still contains the value as a JSON string, for logging and compatibility.
+   */
+  structuredDetails?: ErrorObjectValue;
+
+  /**
+   * @param props Any error-like payload.
+   * @param withOptions Options merged over {@link DEFAULT_BUILD_OPTIONS}, an ordered list of named option profiles
+   * (the first one that creates a valid error wins), or a parser created with {@link createErrorObjectParser} to reuse
+   * its already validated and compiled options.
+   * @param responseVariables Used internally by {@link fromResponse}, the `$response` and `$headers` path variables.
+   */
+  constructor(
+    props: any,
+    withOptions?: Partial<ErrorObjectBuildOptions<F, O>> | ErrorObjectProfile<F, O>[] | ErrorObjectParser<F, O>,
+    responseVariables?: Record<string, any>,
+  ) {
+    if (isNativeError(props) && !(props instanceof ErrorObject) && !nativeErrorsInProgress.has(props)) {
+      // Native errors are parsed from a plain copy of their properties, their cause and aggregated errors are linked
+      const nativeError = props;
+      let main: ErrorObjectFromPayload<F, O>;
+      let cause: ErrorObjectFromPayload<F, O> | undefined;
+      let aggregatedErrors: ErrorObjectFromPayload<F, O>[] = [];
+      nativeErrorsInProgress.add(nativeError);
+      try {
+        main = new ErrorObjectFromPayload<F, O>(createNativeErrorSnapshot(nativeError), withOptions);
+        if (isLinkableError(nativeError.cause)) {
+          cause = new ErrorObjectFromPayload<F, O>(nativeError.cause, withOptions);
+        }
+        if (Array.isArray(nativeError.errors)) {
+          aggregatedErrors = nativeError.errors
+            .filter(isLinkableError)
+            .map((error: any) => new ErrorObjectFromPayload<F, O>(error, withOptions));
+        }
+      } finally {
+        nativeErrorsInProgress.delete(nativeError);
+      }
+      super({
+        code: main.code,
+        message: main.message,
+        numberCode: main.numberCode,
+        details: main.details,
+        domain: main.domain,
+        tag: main.tag,
+        raw: {
+          ...main.raw,
+          stack: nativeError.stack,
+          cause: cause === undefined ? nativeError.cause : undefined,
+        },
+      });
+      this.fields = main.fields;
+      this.structuredDetails = main.structuredDetails;
+      this.children = main.children;
+      this.warnings = main.warnings;
+      this.cause = cause;
+      const nextErrors = [...(main.nextErrors ?? []), ...aggregatedErrors];
+      if (nextErrors.length > 0) {
+        this.nextErrors = nextErrors;
+      }
+      return;
+    }
+
+    if (processedErrors.has(props)) {
+      // Errors that were already processed keep their typed fields and structured details
+      super(props);
+      if (props.fields !== undefined) {
+        this.fields = props.fields;
+      }
+      if (props.structuredDetails !== undefined) {
+        this.structuredDetails = props.structuredDetails;
+      }
+      return;
+    }
 
-  constructor(props: any, withOptions?: Partial<ErrorObjectBuildOptions>) {
+    // Payloads that are already errors are used as they are, unless options are given, e.g. `pathToFields`
     if (
+      withOptions === undefined &&
+      responseVariables === undefined &&
+      props !== undefined &&
+      props !== null &&
+      typeof props === 'object' &&
+      !isNativeErrorSnapshot(props) &&
       'code' in props &&
       props.code !== undefined &&
       props.code !== null &&
@@ -40,13 +165,73 @@ export class ErrorObjectFromPayload extends ErrorObject {
     ) {
       super(props);
     } else {
-      const options: ErrorObjectBuildOptions = {
-        ...DEFAULT_BUILD_OPTIONS,
-        ...(withOptions ?? {}),
-      };
-      let checksFailed: ErrorObjectErrorResult | undefined;
+      const profiles = profilesFor(withOptions);
+      if (profiles !== undefined) {
+        const { winner, profile, rejectedProfiles } = ErrorObjectFromPayload.parseWithProfiles<F, O>(
+          props,
+          profiles,
+          responseVariables,
+        );
+        if (winner !== undefined) {
+          super({
+            code: winner.code,
+            message: winner.message,
+            numberCode: winner.numberCode,
+            details: winner.details,
+            domain: winner.domain,
+            tag: winner.tag,
+            raw: {
+              ...winner.raw,
+              profile,
+              rejectedProfiles: rejectedProfiles.length > 0 ? rejectedProfiles : undefined,
+            },
+          });
+          this.nextErrors = winner.nextErrors;
+          this.children = winner.children;
+          this.warnings = winner.warnings;
+          this.fields = winner.fields;
+          this.structuredDetails = winner.structuredDetails;
+          return;
+        }
+        super({
+          code: ErrorObject.GENERIC_CODE,
+          message: ErrorObject.GENERIC_MESSAGE,
+          tag: ErrorObjectFromPayload.DEFAULT_FALLBACK_TAG,
+          raw: {
+            processingErrors: ([] as ErrorObjectProcessingError[]).concat(
+              ...rejectedProfiles.map((rejectedProfile) => rejectedProfile.processingErrors),
+            ),
+            rejectedProfiles,
+          },
+        });
+        return;
+      }
+
+      const compiledOptions = compiledOptionsFor(
+        withOptions as Partial<ErrorObjectBuildOptions<F, O>> | ErrorObjectParser<F, O>,
+      );
+      if (typeof compiledOptions === 'string') {
+        super({
+          code: ErrorObject.GENERIC_CODE,
+          message: ErrorObject.GENERIC_MESSAGE,
+          tag: ErrorObjectFromPayload.DEFAULT_FALLBACK_TAG,
+          raw: {
+            processingErrors: [createProcessingError(compiledOptions)],
+          },
+        });
+        return;
+      }
+      // The compiled options of a parser are shared, so the response is only added to a copy
+      const compiled: CompiledBuildOptions =
+        responseVariables !== undefined ? { ...compiledOptions, responseVariables } : compiledOptions;
+      // `$root` addresses the whole payload from every error, e.g. `$root.type` from an element of `errors`
+      const variables = { $root: props, ...compiled.responseVariables };
+      const { options } = compiled;
+      let checksFailed: ErrorObjectProcessingError | undefined;
       try {
-        checksFailed = ErrorObjectFromPayload.checkInputForInitialObject(props, options);
+        checksFailed = withPathVariables(variables, () =>
+          ErrorObjectFromPayload.checkInputForInitialObject(props, compiled),
+        );
       } catch (error) {
         super({
           code: 'INT-1',
@@ -64,16 +249,15 @@ export class ErrorObjectFromPayload extends ErrorObject {
           message: ErrorObject.GENERIC_MESSAGE,
           tag: ErrorObjectFromPayload.DEFAULT_FALLBACK_TAG,
           raw: {
-            processingErrors: [{ errorCode: checksFailed, summary: undefined }],
+            processingErrors: [checksFailed],
           },
         });
         return;
       }
 
       try {
-        const { validErrors, summaries, processingErrors } = ErrorObjectFromPayload.processErrorObjectResult(
-          props,
-          options,
+        const { validErrors, warnings, summaries, processingErrors } = withPathVariables(variables, () =>
+          ErrorObjectFromPayload.processErrorObjectResult(props, compiled),
         );
 
         if (validErrors.length > 0) {
@@ -81,19 +265,32 @@ export class ErrorObjectFromPayload extends ErrorObject {
           if (firstError) {
             super({
               ...firstError,
+              details: ErrorObjectFromPayload.detailsAsString(firstError.structuredDetails),
               raw: {
                 processingErrors: processingErrors,
                 summary: summaries,
                 value: props,
               },
             });
+            if (firstError.fields !== undefined) {
+              this.fields = firstError.fields as ErrorObjectFields<F, O>;
+            }
+            if (firstError.structuredDetails !== undefined && typeof firstError.structuredDetails !== 'string') {
+              this.structuredDetails = firstError.structuredDetails;
+            }
+            if (firstError.children !== undefined && firstError.children.length > 0) {
+              this.children = firstError.children.map((p) => ErrorObjectFromPayload.fromValidError<F, O>(p));
+            }
             const nextErrors =
               rawNextErrors && rawNextErrors?.length > 0
-                ? rawNextErrors.map((p) => new ErrorObjectFromPayload(p))
+                ? rawNextErrors.map((p) => ErrorObjectFromPayload.fromValidError<F, O>(p))
                 : undefined;
             if (nextErrors !== undefined) {
               this.nextErrors = nextErrors;
             }
+            if (warnings.length > 0) {
+              this.warnings = warnings.map((p) => ErrorObjectFromPayload.fromValidError<F, O>(p));
+            }
             return;
           }
         }
@@ -107,6 +304,9 @@ export class ErrorObjectFromPayload extends ErrorObject {
             summary: summaries,
           },
         });
+        if (warnings.length > 0) {
+          this.warnings = warnings.map((p) => ErrorObjectFromPayload.fromValidError<F, O>(p));
+        }
       } catch (error) {
         super({
           code: 'INT-2',
@@ -128,34 +328,119 @@ export class ErrorObjectFromPayload extends ErrorObject {
       tag: ErrorObject.GENERIC_TAG,
     });
 
+  /**
+   * Creates an error from a WHATWG `Response`, e.g. from `fetch()`. The body is read once, as JSON if possible,
+   * otherwise as text. The response is addressable in every path using `$response.status`, `$response.statusText`,
+   * `$response.url` and `$headers.<name>` (lowercase), e.g. `pathToFields: { retryAfter: ['$headers.retry-after'] }`.
+   * When the body has no number code, the status is used, and when it has no message, the status text is used, or
+   * `HTTP <status>` when it is empty.
+   */
+  static async fromResponse<F extends string = string, O extends ErrorObjectFieldOptionsMap<F> = {}>(
+    response: ErrorObjectResponse,
+    withOptions?: Partial<ErrorObjectBuildOptions<F, O>> | ErrorObjectProfile<F, O>[] | ErrorObjectParser<F, O>,
+  ): Promise<ErrorObjectFromPayload<F, O>> {
+    let text: string | undefined;
+    let bodyError: unknown;
+    try {
+      text = await response.text();
+    } catch (error) {
+      bodyError = error;
+    }
+    let payload: any = {};
+    if (text !== undefined && text.length > 0) {
+      payload = text;
+      try {
+        const json = JSON.parse(text);
+        if (json !== undefined && json !== null && (typeof json === 'object' || typeof json === 'string')) {
+          payload = json;
+        }
+      } catch {
+        // Not JSON, the text is used as it is
+      }
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers?.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+    const responseVariables = {
+      status: response.status,
+      statusText: response.statusText,
+      ok: response.ok,
+      url: response.url,
+      redirected: response.redirected,
+    };
+
+    const error = new ErrorObjectFromPayload<F, O>(payload, withOptions, {
+      $response: responseVariables,
+      $headers: headers,
+    });
+    error.raw = {
+      ...error.raw,
+      response: { ...responseVariables, headers },
+      ...(bodyError !== undefined ? { bodyError } : {}),
+    };
+    return error;
+  }
+
   verboseLog(logTag: string) {
     return this._log(logTag, 'verbose');
   }
 
   protected _log(logTag: string, logLevel: 'log' | 'debug' | 'verbose') {
     if (!ErrorObject.LOG_METHOD) return this;
-    const logForThis =
-      logLevel === 'verbose' ? this.toVerboseString() : logLevel === 'debug' ? this.toDebugString() : this.toString();
-    if (Array.isArray(this.nextErrors) && this.nextErrors.length > 0) {
-      let row = 1;
-      ErrorObject.LOG_METHOD(`[${logTag}][${row}]`, logForThis);
-      for (const error of this.nextErrors) {
-        row++;
-        ErrorObject.LOG_METHOD(
-          `[${logTag}][${row}]`,
-          logLevel === 'verbose'
-            ? error.toVerboseString()
-            : logLevel === 'debug'
-              ? error.toDebugString()
-              : error.toString(),
-        );
+    const logMethod = ErrorObject.LOG_METHOD;
+    const logFor = (error: ErrorObjectFromPayload<F, O>) =>
+      logLevel === 'verbose'
+        ? error.toVerboseString()
+        : logLevel === 'debug'
+          ? error.toDebugString()
+          : error.toString();
+    // Warnings are logged after the errors. Processing errors explain why a check failed or why an error was skipped,
+    // so they are logged too when debugging
+    const logAfterErrors = () => {
+      if (Array.isArray(this.warnings)) {
+        this.warnings.forEach((warning, index) => logMethod(`[${logTag}][WARNING ${index + 1}]`, logFor(warning)));
       }
-    } else {
-      ErrorObject.LOG_METHOD(`[${logTag}]`, logForThis);
+      const processingErrors: ErrorObjectProcessingError[] | undefined = this.raw?.processingErrors;
+      if (logLevel === 'log' || !Array.isArray(processingErrors)) return;
+      processingErrors.forEach((processingError) =>
+        logMethod(
+          `[${logTag}][PROCESSING_ERROR]`,
+          `${processingError.errorCode} (${processingError.kind}): ${processingError.explanation}`,
+        ),
+      );
+    };
+    const errors = [this, ...(Array.isArray(this.nextErrors) ? this.nextErrors : [])];
+    if (errors.length === 1 && !(Array.isArray(this.children) && this.children.length > 0)) {
+      logMethod(`[${logTag}]`, logFor(this));
+      logAfterErrors();
+      return this;
     }
+    // Children are logged after their parent, using hierarchical row numbers, e.g. `[TAG][1.2]`
+    const logWithChildren = (error: ErrorObjectFromPayload<F, O>, row: string) => {
+      logMethod(`[${logTag}][${row}]`, logFor(error));
+      if (Array.isArray(error.children)) {
+        error.children.forEach((child, index) => logWithChildren(child, `${row}.${index + 1}`));
+      }
+    };
+    errors.forEach((error, index) => logWithChildren(error, `${index + 1}`));
+    logAfterErrors();
     return this;
   }
 
+  toJSON() {
+    const json = super.toJSON();
+    return {
+      ...json,
+      ...(this.structuredDetails !== undefined ? { details: this.structuredDetails } : {}),
+      ...(this.fields !== undefined ? { fields: this.fields } : {}),
+      ...(this.children !== undefined ? { children: this.children } : {}),
+      ...(this.warnings !== undefined ? { warnings: this.warnings } : {}),
+      ...(this.cause !== undefined ? { cause: this.cause } : {}),
+    };
+  }
+
   toVerboseString() {
     if (Array.isArray(this.nextErrors) && this.nextErrors.length > 0) {
       return this.toDebugString() + `\n[NEXT_ERRORS] ${JSON.stringify(this.nextErrors, null, 2)}`;
@@ -172,128 +457,410 @@ export class ErrorObjectFromPayload extends ErrorObject {
 
   private static checkInputForInitialObject(
     input: any,
-    withOptions: ErrorObjectBuildOptions,
-  ): ErrorObjectErrorResult | undefined {
-    const options: ErrorObjectBuildOptions = withOptions ?? {
-      ...DEFAULT_BUILD_OPTIONS,
-    };
+    compiled: CompiledBuildOptions,
+  ): ErrorObjectProcessingError | undefined {
+    const { options } = compiled;
     if (input === undefined || input === null) {
-      return 'checkIsNullish';
+      return createProcessingError('checkIsNullish', { actual: previewValue(input) });
     }
-    if (typeof input !== 'object') {
-      return 'checkIsNotAnObject';
+    if (typeof input !== 'object' && typeof input !== 'string') {
+      return createProcessingError('checkIsNotAnObject', { actual: previewValue(input) });
     }
     if ('checkInputObjectForValues' in options) {
       if (typeof options.checkInputObjectForValues !== 'object') {
-        return 'checkInputObjectForValuesIsNotAnObject';
+        return createProcessingError('checkInputObjectForValuesIsNotAnObject');
       }
       const checkInputObjectForValues = Object.entries(options.checkInputObjectForValues);
       for (const [key, rule] of checkInputObjectForValues) {
         const foundValue = findNestedValueForPath(input, key);
         if (rule.exists ? foundValue !== rule.value : foundValue === rule.value) {
-          return 'checkInputObjectForValuesFailed';
+          const expectation = `${rule.exists ? 'to equal' : 'not to equal'} ${previewValue(rule.value)}`;
+          return createProcessingError('checkInputObjectForValuesFailed', {
+            path: key,
+            expected: rule,
+            actual: previewValue(foundValue),
+            explanation: `Expected "${key}" ${expectation}, found ${previewValue(foundValue)}`,
+          });
         }
       }
     }
     if ('checkInputObjectForTypes' in options) {
       if (typeof options.checkInputObjectForTypes !== 'object') {
-        return 'checkInputObjectForTypesIsNotAnObject';
+        return createProcessingError('checkInputObjectForTypesIsNotAnObject');
       }
       const checkInputObjectForTypes = Object.entries(options.checkInputObjectForTypes);
       for (const [key, rule] of checkInputObjectForTypes) {
         const foundValue = findNestedValueForPath(input, key);
         if (rule.valueIsArray) {
           if (rule.exists ? !Array.isArray(foundValue) : Array.isArray(foundValue)) {
-            return 'checkInputObjectForTypesValueIsArrayFailed';
+            return createProcessingError('checkInputObjectForTypesValueIsArrayFailed', {
+              path: key,
+              expected: rule,
+              actual: previewValue(foundValue),
+              explanation: `Expected "${key}" ${rule.exists ? 'to be' : 'not to be'} an array, found ${previewValue(foundValue)}`,
+            });
           }
         }
         if (rule.exists ? typeof foundValue !== rule.type : typeof foundValue === rule.type) {
-          return 'checkInputObjectForTypesFailed';
+          return createProcessingError('checkInputObjectForTypesFailed', {
+            path: key,
+            expected: rule,
+            actual: previewValue(foundValue),
+            explanation: `Expected "${key}" ${rule.exists ? 'to be' : 'not to be'} of type ${rule.type}, found ${typeof foundValue} ${previewValue(foundValue)}`,
+          });
         }
       }
     }
     if ('checkInputObjectForKeys' in options) {
       if (typeof options.checkInputObjectForKeys !== 'object') {
-        return 'checkInputObjectForKeysIsNotAnObject';
+        return createProcessingError('checkInputObjectForKeysIsNotAnObject');
       }
       const checkInputObjectForKeys = Object.entries(options.checkInputObjectForKeys);
       for (const [key, rule] of checkInputObjectForKeys) {
         const foundValue = findNestedValueForPath(input, key);
         if (rule.exists ? !foundValue : foundValue) {
-          return 'checkInputObjectForKeysFailed';
+          return createProcessingError('checkInputObjectForKeysFailed', {
+            path: key,
+            expected: rule,
+            actual: previewValue(foundValue),
+            explanation: `Expected "${key}" ${rule.exists ? 'to have' : 'not to have'} a truthy value, found ${previewValue(foundValue)}`,
+          });
         }
       }
     }
+    if (compiled.guard === undefined && compiled.schema === undefined) {
+      return undefined;
+    }
+    // A string input is checked once decoded, as it is parsed
+    const decodedInput =
+      typeof input === 'string' ? decodeString(input, compiled.stringDecoders, compiled.maxMessageLength).value : input;
+    if (decodedInput === undefined) {
+      return createProcessingError('stringDecodersFailed', { actual: previewValue(input) });
+    }
+    if (compiled.guard !== undefined) {
+      const { guard } = compiled;
+      const guardFailure = withPathVariables({ $root: decodedInput }, () => evaluateGuard(decodedInput, guard));
+      if (guardFailure !== undefined) {
+        return createGuardFailedError(guardFailure);
+      }
+    }
+    if (compiled.schema !== undefined) {
+      let issues: ErrorObjectSchemaIssue[] | 'schemaIsAsync';
+      try {
+        issues = compiled.schema.validate(decodedInput);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : previewValue(error);
+        return createSchemaFailedError(compiled.schema.vendor, [{ message: `The validator threw: ${reason}` }]);
+      }
+      if (issues === 'schemaIsAsync') {
+        return createProcessingError('schemaIsAsync');
+      }
+      if (issues.length > 0) {
+        return createSchemaFailedError(compiled.schema.vendor, issues);
+      }
+    }
     return undefined;
   }
 
   private static processErrorObjectResult(
     props: any,
-    options: ErrorObjectBuildOptions,
+    compiled: CompiledBuildOptions,
+    depth: number = 0,
   ): {
-    validErrors: { code: string; message: string }[];
+    validErrors: ValidError[];
+    warnings: ValidError[];
     summaries: (ErrorSummary | ErrorObjectErrorResult)[];
     processingErrors: ErrorObjectProcessingError[];
   } {
     let summaries: (ErrorSummary | ErrorObjectErrorResult)[];
-    if ('pathToErrors' in options) {
-      summaries = buildSummariesFromObject(props, options);
+    if (compiled.pathToErrors !== undefined) {
+      summaries = buildSummariesFromObject(props, compiled);
     } else {
-      summaries = [buildSummaryFromObject(props, undefined, false, options)];
+      summaries = buildSummariesFromError(props, undefined, false, compiled);
     }
 
     const processingErrors: ErrorObjectProcessingError[] = [];
-    const validErrors: { code: string; message: string }[] = summaries
+    const warningSummaries: ErrorSummary[] = [];
+    const nestedWarnings: ValidError[] = [];
+    const nestedSkippedSummaries: ErrorSummary[] = [];
+    // The processing errors, warnings and skipped elements of nested errors arrays are kept by the parent, so a child
+    // that could not be built doesn't disappear silently
+    const childrenOf = (summary: ErrorSummary): ValidError[] | undefined => {
+      if (
+        depth >= compiled.maxNestedDepth ||
+        !summary.didDetectErrorsArray ||
+        !hasErrorsArray(summary.input, compiled)
+      ) {
+        return undefined;
+      }
+      const nested = ErrorObjectFromPayload.processErrorObjectResult(summary.input, compiled, depth + 1);
+      processingErrors.push(...nested.processingErrors);
+      nestedWarnings.push(...nested.warnings);
+      for (const nestedSummary of nested.summaries) {
+        if (typeof nestedSummary === 'object' && nestedSummary.skipped !== undefined) {
+          nestedSkippedSummaries.push(nestedSummary);
+        }
+      }
+      return nested.validErrors;
+    };
+    const toValidError = (summary: ErrorSummary) => {
+      const code = summary.value.code?.value;
+      const message = summary.value.message?.value;
+      if (code !== undefined && code !== null && typeof code === 'string') {
+        if (message !== undefined && message !== null && typeof message === 'string') {
+          return {
+            code,
+            message,
+            numberCode: summary.value.numberCode?.value,
+            structuredDetails: summary.value.details?.value,
+            domain: summary.value.domain?.value,
+            fields: ErrorObjectFromPayload.fieldsFromSummary(summary),
+            children: childrenOf(summary),
+            raw: {
+              value: props,
+              processingErrors,
+              summary,
+            },
+          };
+        }
+      }
+      return null;
+    };
+    const validErrors: ValidError[] = summaries
       .filter((summary) => {
         if (typeof summary === 'string') {
-          processingErrors.push({ errorCode: summary, summary: undefined });
+          processingErrors.push(createProcessingError(summary));
           return false;
         }
         if (typeof summary !== 'object') {
-          processingErrors.push({
-            errorCode: 'invalidSummary',
-            summary: undefined,
-          });
+          processingErrors.push(createProcessingError('invalidSummary', { actual: previewValue(summary) }));
+          return false;
+        }
+        if (summary.skipped !== undefined) {
           return false;
         }
         const code = summary.value.code?.value;
         const message = summary.value.message?.value;
         if (code !== undefined && code !== null && typeof code === 'string') {
           if (message !== undefined && message !== null && typeof message === 'string') {
+            // Elements rejected by `elementGuard` are built separately, as warnings
+            if (summary.warning !== undefined) {
+              warningSummaries.push(summary);
+              return false;
+            }
             return true;
           }
         }
-        processingErrors.push({ errorCode: 'unknownCodeOrMessage', summary });
+        processingErrors.push(createUnknownCodeOrMessageError(summary));
         return false;
       })
-      .map((s) => {
-        const summary = s as ErrorSummary;
-        const code = summary.value.code?.value;
-        const message = summary.value.message?.value;
-        if (code !== undefined && code !== null && typeof code === 'string') {
-          if (message !== undefined && message !== null && typeof message === 'string') {
-            return {
-              code,
-              message,
-              numberCode: summary.value.numberCode?.value,
-              details: summary.value.details?.value,
-              domain: summary.value.domain?.value,
-              raw: {
-                value: props,
-                processingErrors,
-                summary,
-              },
-            };
-          }
-        }
-        return null;
-      })
-      .filter((s) => s !== null && s !== undefined) as { code: string; message: string }[];
+      .map((s) => toValidError(s as ErrorSummary))
+      .filter((s) => s !== null && s !== undefined) as ValidError[];
+
+    const warnings = warningSummaries.map(toValidError).filter((s) => s !== null && s !== undefined) as ValidError[];
 
     return {
       validErrors,
-      summaries,
+      warnings: [...warnings, ...nestedWarnings],
+      summaries: [...summaries, ...nestedSkippedSummaries],
       processingErrors,
     };
   }
+
+  /**
+   * Tries each profile in order, returning the first error that is not a fallback error. The processing errors of the
+   * profiles tried before it are kept, for debugging.
+   */
+  private static parseWithProfiles<F extends string, O extends ErrorObjectFieldOptionsMap<F>>(
+    props: any,
+    profiles: ProfileOptions<F, O>[],
+    responseVariables: Record<string, any> | undefined,
+  ): {
+    winner?: ErrorObjectFromPayload<F, O>;
+    profile?: string;
+    rejectedProfiles: ErrorObjectRejectedProfile[];
+  } {
+    const rejectedProfiles: ErrorObjectRejectedProfile[] = [];
+    if (profiles.length === 0) {
+      rejectedProfiles.push({
+        name: undefined,
+        processingErrors: [createProcessingError('profilesIsEmpty')],
+      });
+    }
+    for (const { name, options } of profiles) {
+      if (options === undefined || options === null || typeof options !== 'object' || typeof name !== 'string') {
+        rejectedProfiles.push({
+          name: typeof name === 'string' ? name : undefined,
+          processingErrors: [createProcessingError('profileIsInvalid')],
+        });
+        continue;
+      }
+      const error = new ErrorObjectFromPayload<F, O>(props, options, responseVariables);
+      if (!error.isFallback()) {
+        return { winner: error, profile: name, rejectedProfiles };
+      }
+      rejectedProfiles.push({
+        name,
+        processingErrors: error.raw?.processingErrors ?? [],
+        summary: error.raw?.summary,
+      });
+    }
+    return { rejectedProfiles };
+  }
+
+  /**
+   * Creates an error, and its children, from an already processed error. Used for `nextErrors` and `children`.
+   */
+  private static fromValidError<F extends string, O extends ErrorObjectFieldOptionsMap<F>>({
+    children,
+    ...validError
+  }: ValidError): ErrorObjectFromPayload<F, O> {
+    const props = {
+      ...validError,
+      details: ErrorObjectFromPayload.detailsAsString(validError.structuredDetails),
+      structuredDetails: typeof validError.structuredDetails !== 'string' ? validError.structuredDetails : undefined,
+    };
+    // The values are final, so they are not parsed again
+    processedErrors.add(props);
+    const error = new ErrorObjectFromPayload<F, O>(props);
+    if (children !== undefined && children.length > 0) {
+      error.children = children.map((child) => ErrorObjectFromPayload.fromValidError<F, O>(child));
+    }
+    return error;
+  }
+
+  private static detailsAsString(details: ErrorObjectValue | undefined): string | undefined {
+    return details === undefined || typeof details === 'string' ? details : JSON.stringify(details);
+  }
+
+  private static fieldsFromSummary(summary: ErrorSummary): ValidError['fields'] {
+    if (summary.value.fields === undefined) {
+      return undefined;
+    }
+    const fields: NonNullable<ValidError['fields']> = {};
+    for (const [name, field] of Object.entries(summary.value.fields)) {
+      if (field.value !== undefined) {
+        fields[name] = field.value;
+      }
+    }
+    return fields;
+  }
 }
+
+type ValidError = {
+  code: string;
+  message: string;
+  structuredDetails?: ErrorObjectValue;
+  fields?: ErrorObjectFields<string, ErrorObjectFieldOptionsMap>;
+  children?: ValidError[];
+};
+
+type ProfileOptions<F extends string, O extends ErrorObjectFieldOptionsMap<F>> = {
+  name: string;
+  options: Partial<ErrorObjectBuildOptions<F, O>> | ErrorObjectParser<F, O>;
+};
+
+/**
+ * A reusable parser created by {@link createErrorObjectParser}.
+ */
+export type ErrorObjectParser<F extends string = string, O extends ErrorObjectFieldOptionsMap<F> = {}> = {
+  /**
+   * The options used by the parser, already merged with {@link DEFAULT_BUILD_OPTIONS}. When the parser was created
+   * using profiles, each profile is merged with {@link DEFAULT_BUILD_OPTIONS}.
+   */
+  options: ErrorObjectBuildOptions<F, O> | (ErrorObjectBuildOptions<F, O> & ErrorObjectProfile<F, O>)[];
+  /**
+   * Problems found while validating the options, e.g. `pathToCodeIsNotAnArray`. When not empty, every call to
+   * {@link parse} returns a fallback error containing them. When the parser was created using profiles, the invalid
+   * profiles are skipped instead.
+   */
+  processingErrors: ErrorObjectProcessingError[];
+  /**
+   * Same as `new ErrorObjectFromPayload(payload, options)`, without validating and compiling the options again.
+   */
+  parse: (payload: any) => ErrorObjectFromPayload<F, O>;
+};
+
+const nativeErrorsInProgress = new WeakSet<object>();
+
+/**
+ * The props created by {@link ErrorObjectFromPayload.fromValidError}, used as they are by the constructor.
+ */
+const processedErrors = new WeakSet<object>();
+
+/**
+ * A cause or an aggregated error is linked only if it is an object not already being parsed, to avoid cycles.
+ */
+const isLinkableError = (value: any): boolean =>
+  value !== undefined && value !== null && typeof value === 'object' && !nativeErrorsInProgress.has(value);
+
+const compiledParsers = new WeakMap<ErrorObjectParser<any, any>, CompiledBuildOptions | ErrorObjectErrorResult>();
+const profileParsers = new WeakMap<ErrorObjectParser<any, any>, ProfileOptions<any, any>[]>();
+
+const mergeWithDefaults = <F extends string, O extends ErrorObjectFieldOptionsMap<F>>(
+  withOptions?: Partial<ErrorObjectBuildOptions<F, O>>,
+): ErrorObjectBuildOptions<F, O> => ({
+  ...(DEFAULT_BUILD_OPTIONS as ErrorObjectBuildOptions<F, O>),
+  ...(withOptions ?? {}),
+});
+
+const compiledOptionsFor = <F extends string, O extends ErrorObjectFieldOptionsMap<F>>(
+  withOptions?: Partial<ErrorObjectBuildOptions<F, O>> | ErrorObjectParser<F, O>,
+): CompiledBuildOptions | ErrorObjectErrorResult => {
+  const compiled = withOptions !== undefined ? compiledParsers.get(withOptions as ErrorObjectParser<F, O>) : undefined;
+  return (
+    compiled ??
+    compileBuildOptions(mergeWithDefaults(withOptions as Partial<ErrorObjectBuildOptions<F, O>>) as AnyBuildOptions)
+  );
+};
+
+const profilesFor = <F extends string, O extends ErrorObjectFieldOptionsMap<F>>(
+  withOptions?: Partial<ErrorObjectBuildOptions<F, O>> | ErrorObjectProfile<F, O>[] | ErrorObjectParser<F, O>,
+): ProfileOptions<F, O>[] | undefined => {
+  if (Array.isArray(withOptions)) {
+    return withOptions.map((profile) => ({ name: profile?.name, options: profile }));
+  }
+  return withOptions !== undefined ? profileParsers.get(withOptions as ErrorObjectParser<F, O>) : undefined;
+};
+
+/**
+ * The {@link createErrorObjectParser} function validates the options and compiles their paths once, returning a parser
+ * that can be reused for every payload. Prefer it over `new ErrorObjectFromPayload(payload, options)` when the same
+ * options are used many times, e.g. in an API client. It also accepts an ordered list of named option profiles.
+ */
+export const createErrorObjectParser = <F extends string = string, O extends ErrorObjectFieldOptionsMap<F> = {}>(
+  withOptions?: Partial<ErrorObjectBuildOptions<F, O>> | ErrorObjectProfile<F, O>[],
+): ErrorObjectParser<F, O> => {
+  if (Array.isArray(withOptions)) {
+    const processingErrors: ErrorObjectProcessingError[] = [];
+    const profiles: ProfileOptions<F, O>[] = withOptions.map((profile) => {
+      if (profile === undefined || profile === null || typeof profile !== 'object') {
+        return { name: profile, options: profile };
+      }
+      const profileParser = createErrorObjectParser<F, O>(profile);
+      processingErrors.push(...profileParser.processingErrors);
+      return { name: profile.name, options: profileParser };
+    });
+    const parser: ErrorObjectParser<F, O> = {
+      options: withOptions.map((profile) => ({ ...mergeWithDefaults(profile), name: profile?.name })),
+      processingErrors,
+      parse: (payload: any) => new ErrorObjectFromPayload<F, O>(payload, parser),
+    };
+    profileParsers.set(parser, profiles);
+    return parser;
+  }
+
+  const options = mergeWithDefaults(withOptions);
+  const compiled = compileBuildOptions(options as AnyBuildOptions);
+  if (typeof compiled === 'string') {
+    SHOW_ERROR_LOGS &&
+      console.log('[ErrorObjectFromPayload]', 'Invalid options passed to createErrorObjectParser():', compiled);
+  }
+  const parser: ErrorObjectParser<F, O> = {
+    options,
+    processingErrors: typeof compiled === 'string' ? [createProcessingError(compiled)] : [],
+    parse: (payload: any) => new ErrorObjectFromPayload<F, O>(payload, parser),
+  };
+  compiledParsers.set(parser, compiled);
+  return parser;
+};
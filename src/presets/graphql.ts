@@ -0,0 +1,39 @@
+import { ErrorObjectBuildOptions, ErrorObjectTransformState } from '../utils';
+
+export type GraphQLField = 'path' | 'locations' | 'isPartial';
+
+export type GraphQLFieldOptions = {
+  fields: { path: { mode: 'raw' }; locations: { mode: 'raw' }; isPartial: { mode: 'raw' } };
+};
+
+/**
+ * The {@link GRAPHQL_BUILD_OPTIONS} preset parses GraphQL responses (`{ errors: [...], data }`). Each element of
+ * `errors` becomes an error, with `extensions.code` as code (`unknown` when missing), the `message` and the
+ * `extensions` as details. The `path` and `locations` are kept as structured fields, and the `isPartial` field tells
+ * whether the response also has `data`, i.e. the errors are partial failures and the data can still be shown.
+ */
+export const GRAPHQL_BUILD_OPTIONS: ErrorObjectBuildOptions<GraphQLField, GraphQLFieldOptions> = {
+  pathToErrors: ['errors'],
+  pathToCode: ['extensions.code', 'extensions.errorType', 'extensions.classification'],
+  pathToNumberCode: [],
+  pathToMessage: ['message'],
+  pathToDetails: ['extensions'],
+  pathToDomain: ['extensions.serviceName', 'extensions.service'],
+  pathToFields: {
+    path: ['path'],
+    locations: ['locations'],
+    isPartial: ['$root.data'],
+  },
+  fieldOptions: { fields: { path: { mode: 'raw' }, locations: { mode: 'raw' }, isPartial: { mode: 'raw' } } },
+  transform: (
+    beforeTransform: ErrorObjectTransformState<GraphQLField, GraphQLFieldOptions>,
+  ): ErrorObjectTransformState<GraphQLField, GraphQLFieldOptions> => ({
+    ...beforeTransform,
+    code: beforeTransform.code ?? 'unknown',
+    fields: {
+      ...beforeTransform.fields,
+      // The data found is replaced by whether it was found, a `null` data is not found
+      isPartial: beforeTransform.fields?.isPartial !== undefined,
+    },
+  }),
+};
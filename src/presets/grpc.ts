@@ -0,0 +1,78 @@
+import { ErrorObjectBuildOptions, ErrorObjectTransformState } from '../utils';
+
+export type GrpcStatusField = 'reason' | 'metadata' | 'fieldViolations' | 'retryDelay' | 'localizedMessage' | 'locale';
+
+export type GrpcStatusFieldOptions = {
+  fields: { metadata: { mode: 'raw' }; fieldViolations: { mode: 'raw' }; retryDelay: { mode: 'raw' } };
+};
+
+/**
+ * The canonical names of the gRPC status codes, by number.
+ */
+const GRPC_CODE_NAMES = [
+  'OK',
+  'CANCELLED',
+  'UNKNOWN',
+  'INVALID_ARGUMENT',
+  'DEADLINE_EXCEEDED',
+  'NOT_FOUND',
+  'ALREADY_EXISTS',
+  'PERMISSION_DENIED',
+  'RESOURCE_EXHAUSTED',
+  'FAILED_PRECONDITION',
+  'ABORTED',
+  'OUT_OF_RANGE',
+  'UNIMPLEMENTED',
+  'INTERNAL',
+  'UNAVAILABLE',
+  'DATA_LOSS',
+  'UNAUTHENTICATED',
+];
+
+/**
+ * Paths to a member of the `details` element with the given type, for `google.rpc.Status` at the root (gRPC-gateway)
+ * or inside `error` (Google APIs).
+ */
+const detailPaths = (type: string, member: string): string[] =>
+  ['details', 'error.details'].map(
+    (details) => `${details}[?@type=='type.googleapis.com/google.rpc.${type}'].${member}`,
+  );
+
+/**
+ * The {@link GRPC_STATUS_BUILD_OPTIONS} preset parses `google.rpc.Status` errors, from gRPC-gateway
+ * (`{ code: 5, message, details }`) or from Google APIs (`{ error: { code: 404, status: 'NOT_FOUND', message, details } }`).
+ * The numeric gRPC code is the number code and its canonical name (e.g. `NOT_FOUND`) is the code. The typed `details`
+ * elements are found by their `@type`: `ErrorInfo` for the `reason`, the domain and the `metadata`, `BadRequest` for
+ * the `fieldViolations`, `RetryInfo` for the `retryDelay` and `LocalizedMessage` for the `localizedMessage` and its
+ * `locale`.
+ */
+export const GRPC_STATUS_BUILD_OPTIONS: ErrorObjectBuildOptions<GrpcStatusField, GrpcStatusFieldOptions> = {
+  pathToErrors: [],
+  pathToCode: ['error.status', 'status'],
+  pathToNumberCode: ['code', 'error.code'],
+  pathToMessage: ['message', 'error.message'],
+  pathToDetails: ['details', 'error.details'],
+  pathToDomain: detailPaths('ErrorInfo', 'domain'),
+  pathToFields: {
+    reason: detailPaths('ErrorInfo', 'reason'),
+    metadata: detailPaths('ErrorInfo', 'metadata'),
+    fieldViolations: detailPaths('BadRequest', 'fieldViolations'),
+    retryDelay: detailPaths('RetryInfo', 'retryDelay'),
+    localizedMessage: detailPaths('LocalizedMessage', 'message'),
+    locale: detailPaths('LocalizedMessage', 'locale'),
+  },
+  fieldOptions: {
+    fields: { metadata: { mode: 'raw' }, fieldViolations: { mode: 'raw' }, retryDelay: { mode: 'raw' } },
+  },
+  transform: (
+    beforeTransform: ErrorObjectTransformState<GrpcStatusField, GrpcStatusFieldOptions>,
+  ): ErrorObjectTransformState<GrpcStatusField, GrpcStatusFieldOptions> => {
+    const { numberCode } = beforeTransform;
+    // Google APIs use the HTTP status as number code, with the canonical name in `status`
+    const codeName = numberCode !== undefined ? GRPC_CODE_NAMES[numberCode] : undefined;
+    return {
+      ...beforeTransform,
+      code: beforeTransform.code ?? codeName ?? numberCode?.toString() ?? 'UNKNOWN',
+    };
+  },
+};
@@ -0,0 +1,7 @@
+export * from './graphql';
+export * from './grpc';
+export * from './jsonApi';
+export * from './jsonRpc';
+export * from './oauth';
+export * from './problemDetails';
+export * from './soap';
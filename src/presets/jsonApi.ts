@@ -0,0 +1,93 @@
+import { ErrorObjectBuildOptions, ErrorObjectTransformState } from '../utils';
+
+export type JsonApiField = 'field' | 'pointer' | 'parameter' | 'header' | 'title' | 'detail' | 'id';
+
+export type JsonApiFieldOptions = { numberCode: { coerce: { numericStringToNumber: true } } };
+
+/**
+ * Options for {@link createJsonApiBuildOptions}.
+ * - `message` chooses the member used as message when both are present: the specific `detail` (default) or the
+ *   generic `title`
+ */
+export type JsonApiPresetOptions = {
+  message?: 'detail' | 'title';
+};
+
+/**
+ * The tokens of a JSON pointer (RFC 6901), e.g. `/data/attributes/first~1name` has the tokens `data`, `attributes`
+ * and `first/name`.
+ */
+const jsonPointerTokens = (pointer: string): string[] | undefined => {
+  if (pointer !== '' && !pointer.startsWith('/')) {
+    return undefined;
+  }
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+/**
+ * The name of the field a JSON pointer leads to, e.g. `email` for `/data/attributes/email`, `author` for
+ * `/data/relationships/author` and `address.city` for `/data/attributes/address/city`. Pointers to a whole resource,
+ * like `/data`, don't lead to a field.
+ */
+const fieldFromJsonPointer = (pointer: string): string | undefined => {
+  const tokens = jsonPointerTokens(pointer);
+  if (tokens === undefined) {
+    return undefined;
+  }
+  const index = Math.max(tokens.lastIndexOf('attributes'), tokens.lastIndexOf('relationships'));
+  if (index !== -1) {
+    return index < tokens.length - 1 ? tokens.slice(index + 1).join('.') : undefined;
+  }
+  const lastToken = tokens[tokens.length - 1];
+  return lastToken && lastToken !== 'data' && !/^\d+$/.test(lastToken) ? lastToken : undefined;
+};
+
+/**
+ * Creates the options for JSON:API error objects (`{ errors: [{ status, code, title, detail, source, meta }] }`).
+ * Each element of `errors` becomes an error, with the `code` as code (or the `status`, a string in JSON:API), the
+ * `status` as number code and the `meta` as details. The `source.pointer` is resolved to the name of the invalid
+ * field, e.g. `/data/attributes/email` becomes the `field` field `email`, for attaching messages to form inputs.
+ */
+export const createJsonApiBuildOptions = ({ message = 'detail' }: JsonApiPresetOptions = {}): ErrorObjectBuildOptions<
+  JsonApiField,
+  JsonApiFieldOptions
+> => ({
+  pathToErrors: ['errors'],
+  pathToCode: ['code', 'status'],
+  pathToNumberCode: ['status'],
+  pathToMessage: message === 'title' ? ['title', 'detail'] : ['detail', 'title'],
+  pathToDetails: ['meta'],
+  pathToDomain: [],
+  pathToFields: {
+    field: [],
+    pointer: ['source.pointer'],
+    parameter: ['source.parameter'],
+    header: ['source.header'],
+    title: ['title'],
+    detail: ['detail'],
+    id: ['id'],
+  },
+  fieldOptions: { numberCode: { coerce: { numericStringToNumber: true } } },
+  transform: (
+    beforeTransform: ErrorObjectTransformState<JsonApiField, JsonApiFieldOptions>,
+  ): ErrorObjectTransformState<JsonApiField, JsonApiFieldOptions> => {
+    const pointer = beforeTransform.fields?.pointer;
+    return {
+      ...beforeTransform,
+      code: beforeTransform.code ?? 'unknown',
+      fields: {
+        ...beforeTransform.fields,
+        field: pointer !== undefined ? fieldFromJsonPointer(pointer) : undefined,
+      },
+    };
+  },
+});
+
+/**
+ * The {@link JSON_API_BUILD_OPTIONS} preset parses JSON:API error objects, using the `detail` as message when present.
+ * See {@link createJsonApiBuildOptions} for using the `title` instead.
+ */
+export const JSON_API_BUILD_OPTIONS = createJsonApiBuildOptions();
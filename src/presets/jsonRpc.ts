@@ -0,0 +1,51 @@
+import { ErrorObjectBuildOptions, ErrorObjectTransformState } from '../utils';
+
+export type JsonRpcField = 'id';
+
+export type JsonRpcFieldOptions = { details: { mode: 'raw' }; fields: { id: { mode: 'raw' } } };
+
+/**
+ * The names of the error codes reserved by JSON-RPC 2.0.
+ */
+const JSON_RPC_CODE_NAMES: Record<number, string> = {
+  [-32700]: 'PARSE_ERROR',
+  [-32600]: 'INVALID_REQUEST',
+  [-32601]: 'METHOD_NOT_FOUND',
+  [-32602]: 'INVALID_PARAMS',
+  [-32603]: 'INTERNAL_ERROR',
+};
+
+const codeName = (code: number): string => {
+  const name = JSON_RPC_CODE_NAMES[code];
+  if (name !== undefined) {
+    return name;
+  }
+  // Reserved for implementation-defined server errors
+  return code <= -32000 && code >= -32099 ? 'SERVER_ERROR' : code.toString();
+};
+
+/**
+ * The {@link JSON_RPC_BUILD_OPTIONS} preset parses JSON-RPC 2.0 responses
+ * (`{ jsonrpc: '2.0', id, error: { code, message, data } }`). A batch response creates one error per failed call,
+ * the successful calls are listed in `raw.summary` as skipped. The `error.code` is the number code and its name the
+ * code, e.g. `-32602` becomes `INVALID_PARAMS` and `-32000` to `-32099` become `SERVER_ERROR`. The request `id` is
+ * kept as the `id` field and `error.data` as structured details.
+ */
+export const JSON_RPC_BUILD_OPTIONS: ErrorObjectBuildOptions<JsonRpcField, JsonRpcFieldOptions> = {
+  pathToErrors: ['[?error]'],
+  pathToCode: [],
+  pathToNumberCode: ['error.code'],
+  pathToMessage: ['error.message'],
+  pathToDetails: ['error.data'],
+  pathToDomain: [],
+  pathToFields: {
+    id: ['id'],
+  },
+  fieldOptions: { details: { mode: 'raw' }, fields: { id: { mode: 'raw' } } },
+  transform: (
+    beforeTransform: ErrorObjectTransformState<JsonRpcField, JsonRpcFieldOptions>,
+  ): ErrorObjectTransformState<JsonRpcField, JsonRpcFieldOptions> => ({
+    ...beforeTransform,
+    code: beforeTransform.numberCode !== undefined ? codeName(beforeTransform.numberCode) : 'unknown',
+  }),
+};
@@ -0,0 +1,122 @@
+import { BUILT_IN_STRING_DECODERS } from '../builder/stringDecoders';
+import { ErrorObjectBuildOptions, ErrorObjectStringDecoder, ErrorObjectTransformState } from '../utils';
+
+export type OAuthField = 'errorUri' | 'state' | 'realm' | 'scope';
+
+export type OAuthFieldOptions = { code: { mode: 'string' } };
+
+/**
+ * Default messages for the error codes registered by RFC 6749, RFC 6750, RFC 8628 and OpenID Connect, used when the
+ * error has no `error_description`.
+ */
+const OAUTH_ERROR_MESSAGES: Record<string, string> = {
+  invalid_request: 'The request is missing a parameter, has an invalid parameter or is otherwise malformed.',
+  unauthorized_client: 'The client is not authorized to use this method.',
+  access_denied: 'The request was denied.',
+  unsupported_response_type: 'The response type is not supported.',
+  invalid_scope: 'The requested scope is invalid or unknown.',
+  server_error: 'The authorization server encountered an unexpected error.',
+  temporarily_unavailable: 'The authorization server is temporarily unavailable.',
+  invalid_client: 'The client could not be authenticated.',
+  invalid_grant: 'The authorization grant or refresh token is invalid, expired or revoked.',
+  unsupported_grant_type: 'The grant type is not supported.',
+  invalid_token: 'The access token is invalid, expired or revoked.',
+  insufficient_scope: 'The access token does not have the required scope.',
+  authorization_pending: 'The authorization request is still pending.',
+  slow_down: 'Polling too frequently, slow down.',
+  expired_token: 'The device code has expired.',
+  interaction_required: 'User interaction is required.',
+  login_required: 'The user must log in.',
+  account_selection_required: 'The user must select an account.',
+  consent_required: 'The user must give consent.',
+  invalid_request_uri: 'The request URI is invalid.',
+  invalid_request_object: 'The request object is invalid.',
+  request_not_supported: 'The request parameter is not supported.',
+  request_uri_not_supported: 'The request URI parameter is not supported.',
+  registration_not_supported: 'The registration parameter is not supported.',
+};
+
+const AUTH_PARAM = /([\w-]+)\s*=\s*("((?:[^"\\]|\\.)*)"|[^,\s]*)/g;
+
+/**
+ * Decodes a `WWW-Authenticate` header value using the Bearer scheme (RFC 6750), e.g.
+ * `Bearer realm="example", error="invalid_token", error_description="The access token expired"`.
+ */
+const wwwAuthenticateDecoder: ErrorObjectStringDecoder = {
+  name: 'wwwAuthenticate',
+  decode: (input) => {
+    const params = /^\s*Bearer\s+(.*)$/i.exec(input)?.[1];
+    if (params === undefined) {
+      return undefined;
+    }
+    const value: Record<string, string> = {};
+    let match: RegExpExecArray | null;
+    AUTH_PARAM.lastIndex = 0;
+    while ((match = AUTH_PARAM.exec(params)) !== null) {
+      value[match[1] ?? ''] = match[3] !== undefined ? match[3].replace(/\\(.)/g, '$1') : (match[2] ?? '');
+    }
+    return 'error' in value ? value : undefined;
+  },
+};
+
+/**
+ * Decodes the query and the fragment of a redirect URL, e.g. `https://app.example.com/callback?error=access_denied`
+ * or `https://app.example.com/callback#error=access_denied&state=xyz`. The fragment wins over the query.
+ */
+const redirectUrlDecoder: ErrorObjectStringDecoder = {
+  name: 'redirectUrl',
+  decode: (input) => {
+    const trimmed = input.trim();
+    if (/\s/.test(trimmed)) {
+      return undefined;
+    }
+    const hashIndex = trimmed.indexOf('#');
+    const beforeHash = hashIndex === -1 ? trimmed : trimmed.slice(0, hashIndex);
+    const queryIndex = beforeHash.indexOf('?');
+    const parts = [
+      queryIndex === -1 ? undefined : beforeHash.slice(queryIndex + 1),
+      hashIndex === -1 ? undefined : trimmed.slice(hashIndex + 1),
+    ];
+    let value: Record<string, any> | undefined;
+    for (const part of parts) {
+      const decoded = part ? BUILT_IN_STRING_DECODERS.formUrlEncoded(part, undefined) : undefined;
+      if (decoded !== undefined) {
+        value = { ...value, ...decoded.value };
+      }
+    }
+    return value !== undefined && 'error' in value ? value : undefined;
+  },
+};
+
+/**
+ * The {@link OAUTH_BUILD_OPTIONS} preset parses OAuth 2.0 and OpenID Connect errors
+ * (`{ error: 'invalid_grant', error_description, error_uri }`) from a JSON body, a redirect URL with the error in its
+ * query or fragment, a form-encoded body, or a `WWW-Authenticate` Bearer header value. The registered error codes get
+ * a default message when there is no `error_description`, the other codes are used as message.
+ */
+export const OAUTH_BUILD_OPTIONS: ErrorObjectBuildOptions<OAuthField, OAuthFieldOptions> = {
+  pathToErrors: [],
+  pathToCode: ['error'],
+  pathToNumberCode: [],
+  pathToMessage: ['error_description'],
+  pathToDetails: [],
+  pathToDomain: [],
+  pathToFields: {
+    errorUri: ['error_uri'],
+    state: ['state'],
+    realm: ['realm'],
+    scope: ['scope'],
+  },
+  fieldOptions: { code: { mode: 'string' } },
+  stringDecoders: ['json', wwwAuthenticateDecoder, redirectUrlDecoder, 'formUrlEncoded'],
+  transform: (
+    beforeTransform: ErrorObjectTransformState<OAuthField, OAuthFieldOptions>,
+  ): ErrorObjectTransformState<OAuthField, OAuthFieldOptions> => ({
+    ...beforeTransform,
+    message:
+      beforeTransform.message ||
+      (beforeTransform.code !== undefined
+        ? (OAUTH_ERROR_MESSAGES[beforeTransform.code] ?? beforeTransform.code)
+        : undefined),
+  }),
+};
@@ -0,0 +1,65 @@
+import { ErrorObjectBuildOptions, ErrorObjectTransformState } from '../utils';
+
+export type ProblemDetailsField = 'title' | 'instance' | 'extensions';
+
+export type ProblemDetailsFieldOptions = { fields: { extensions: { mode: 'raw' } } };
+
+/**
+ * The members defined by RFC 9457, the other members of a problem are extensions.
+ */
+const PROBLEM_DETAILS_MEMBERS = ['type', 'title', 'status', 'detail', 'instance', 'errors'];
+
+/**
+ * The last part of the type URI, e.g. `https://example.com/probs/out-of-credit` becomes `out-of-credit`.
+ */
+const codeFromType = (type: string): string | undefined => {
+  const code = /([^/#:]+)\/?$/.exec(type)?.[1];
+  return code !== undefined && type !== 'about:blank' ? code : undefined;
+};
+
+/**
+ * The {@link PROBLEM_DETAILS_BUILD_OPTIONS} preset parses RFC 7807 and RFC 9457 problem details
+ * (`application/problem+json`). The last part of the `type` URI is the code and the whole URI is the domain, the
+ * `status` is the number code (and the code, when the type is missing or `about:blank`), and the `detail` is the
+ * message, with the `title` as fallback. The `instance`, the `title` and the extension members are kept as fields.
+ * Each element of the RFC 9457 `errors` extension becomes an error, using the members of the problem it belongs to
+ * when it doesn't have its own.
+ */
+export const PROBLEM_DETAILS_BUILD_OPTIONS: ErrorObjectBuildOptions<ProblemDetailsField, ProblemDetailsFieldOptions> = {
+  pathToErrors: ['errors'],
+  pathToCode: ['type', '$root.type'],
+  pathToNumberCode: ['status', '$root.status'],
+  pathToMessage: ['detail', 'title', '$root.detail', '$root.title'],
+  pathToDetails: [],
+  pathToDomain: ['type', '$root.type'],
+  pathToFields: {
+    title: ['title', '$root.title'],
+    instance: ['instance', '$root.instance'],
+    extensions: [],
+  },
+  fieldOptions: { fields: { extensions: { mode: 'raw' } } },
+  transform: (
+    beforeTransform: ErrorObjectTransformState<ProblemDetailsField, ProblemDetailsFieldOptions>,
+    inputObject: any,
+  ): ErrorObjectTransformState<ProblemDetailsField, ProblemDetailsFieldOptions> => {
+    const type = beforeTransform.code;
+    const extensions: Record<string, any> = {};
+    for (const [key, value] of Object.entries(inputObject ?? {})) {
+      if (!PROBLEM_DETAILS_MEMBERS.includes(key)) {
+        extensions[key] = value;
+      }
+    }
+    return {
+      ...beforeTransform,
+      code:
+        (type !== undefined ? codeFromType(type) : undefined) ??
+        beforeTransform.numberCode?.toString() ??
+        'about:blank',
+      domain: type !== undefined && type !== 'about:blank' ? type : undefined,
+      fields: {
+        ...beforeTransform.fields,
+        extensions: Object.keys(extensions).length > 0 ? extensions : undefined,
+      },
+    };
+  },
+};
@@ -0,0 +1,34 @@
+import { ErrorObjectBuildOptions, ErrorObjectTransformState } from '../utils';
+
+export type SoapFaultField = 'actor' | 'node' | 'subcode';
+
+/**
+ * The {@link SOAP_FAULT_BUILD_OPTIONS} preset parses SOAP 1.1 faults (`faultcode`, `faultstring`, `detail`) and
+ * SOAP 1.2 faults (`Code.Value`, `Reason.Text`, `Detail`), from XML strings or from objects with the same shape.
+ * The namespace prefix is removed from the code, e.g. `soap:Server` becomes `Server`.
+ */
+export const SOAP_FAULT_BUILD_OPTIONS: ErrorObjectBuildOptions<SoapFaultField> = {
+  pathToErrors: [],
+  pathToCode: ['Envelope.Body.Fault.faultcode', 'Envelope.Body.Fault.Code.Value'],
+  pathToNumberCode: [],
+  pathToMessage: [
+    'Envelope.Body.Fault.faultstring.#text',
+    'Envelope.Body.Fault.faultstring',
+    'Envelope.Body.Fault.Reason..#text',
+    'Envelope.Body.Fault.Reason.Text',
+  ],
+  pathToDetails: ['Envelope.Body.Fault.detail', 'Envelope.Body.Fault.Detail'],
+  pathToDomain: [],
+  pathToFields: {
+    actor: ['Envelope.Body.Fault.faultactor', 'Envelope.Body.Fault.Role'],
+    node: ['Envelope.Body.Fault.Node'],
+    subcode: ['Envelope.Body.Fault.Code.Subcode.Value'],
+  },
+  stringDecoders: ['json', 'xml', 'text'],
+  transform: (
+    beforeTransform: ErrorObjectTransformState<SoapFaultField>,
+  ): ErrorObjectTransformState<SoapFaultField> => ({
+    ...beforeTransform,
+    code: beforeTransform.code?.slice(beforeTransform.code.indexOf(':') + 1),
+  }),
+};
@@ -55,19 +55,115 @@ export const DEFAULT_BUILD_OPTIONS: ErrorObjectBuildOptions = {
 /**
  * The {@link ErrorObjectTransformState} type contains the state of the error object before and after the transformation.
  */
-export type ErrorObjectTransformState = {
+export type ErrorObjectTransformState<F extends string = string, O extends ErrorObjectFieldOptionsMap<F> = {}> = {
   code?: string | undefined;
   numberCode?: number | undefined;
   message?: string | undefined;
-  details?: string | undefined;
+  details?: ErrorObjectValueForMode<ErrorObjectModeOf<O['details']>> | undefined;
   domain?: string | undefined;
+  fields?: ErrorObjectFields<F, O> | undefined;
 };
 
+/**
+ * The {@link ErrorObjectFields} type contains the extra fields found using the {@link ErrorObjectBuildOptions.pathToFields} option.
+ * Fields are strings, unless their mode is set to `raw` using the {@link ErrorObjectBuildOptions.fieldOptions} option.
+ */
+export type ErrorObjectFields<F extends string = string, O extends ErrorObjectFieldOptionsMap<F> = {}> = {
+  [K in F]?: ErrorObjectValueForMode<ErrorObjectModeOf<NonNullable<O['fields']>[K]>>;
+};
+
+/**
+ * The {@link ErrorObjectValue} type contains all the values that can be kept as they were found, using the `raw` mode.
+ */
+export type ErrorObjectValue = string | number | boolean | Record<string, any> | any[];
+
+/**
+ * The {@link ErrorObjectValueMode} type controls how a found value is kept:
+ * - `stringify` (default) - strings are kept as they are, objects and arrays are `JSON.stringify`'d
+ * - `string` - only strings are accepted, any other value is skipped and the next path is checked
+ * - `raw` - any value (except `undefined`, and `null` for details) is kept as it was found, e.g. GraphQL `locations`
+ * or a map of validation errors. Only available for details and extra fields, since code, message and domain must be
+ * strings
+ */
+export type ErrorObjectValueMode = 'string' | 'raw' | 'stringify';
+
+/**
+ * The {@link ErrorObjectCoercion} type controls how found values are converted before being checked and kept.
+ * All coercions are disabled by default and every coercion applied is recorded in the {@link ErrorSummary}.
+ */
+export type ErrorObjectCoercion = {
+  /**
+   * Converts numeric strings to numbers, e.g. `"429"` to `429`. Used by `numberCode` and by fields in the `raw` mode.
+   */
+  numericStringToNumber?: boolean;
+  /**
+   * Converts numbers and booleans to strings, e.g. a numeric `code: 404` to `"404"`. Not used by `numberCode`.
+   */
+  primitiveToString?: boolean;
+  /**
+   * Removes whitespace from both ends of strings.
+   */
+  trim?: boolean;
+  /**
+   * Treats empty strings (after trimming, if enabled) as missing, so the next path is checked.
+   */
+  emptyAsMissing?: boolean;
+};
+
+/**
+ * The {@link ErrorObjectCoercionKind} type contains the names of the coercions that can be applied to a value.
+ */
+export type ErrorObjectCoercionKind = keyof ErrorObjectCoercion;
+
+/**
+ * The {@link ErrorObjectCoercionRecord} type describes the coercions applied to a found value, see {@link ErrorSummary}.
+ */
+export type ErrorObjectCoercionRecord = {
+  applied: ErrorObjectCoercionKind[];
+  originalType: string;
+  originalValue: any;
+  value: any;
+};
+
+/**
+ * The {@link ErrorObjectFieldStrategy} type controls what happens when several paths match:
+ * - `first` (default) - the first value found wins
+ * - `all` - every value found produces its own error, chained using `nextErrors`. Only one field can use it
+ * - `join` - every value found is joined into a single string using the `separator` (default `', '`)
+ */
+export type ErrorObjectFieldStrategy = 'first' | 'all' | 'join';
+
+/**
+ * The {@link ErrorObjectFieldOptions} type contains the options for a single field.
+ */
+export type ErrorObjectFieldOptions<M extends ErrorObjectValueMode = ErrorObjectValueMode> = {
+  mode?: M;
+  coerce?: ErrorObjectCoercion;
+  strategy?: ErrorObjectFieldStrategy;
+  separator?: string;
+};
+
+/**
+ * The {@link ErrorObjectFieldOptionsMap} type contains the options for each field, see {@link ErrorObjectBuildOptions.fieldOptions}.
+ */
+export type ErrorObjectFieldOptionsMap<F extends string = string> = {
+  code?: ErrorObjectFieldOptions<'string' | 'stringify'>;
+  numberCode?: Omit<ErrorObjectFieldOptions, 'mode' | 'strategy' | 'separator'> & { strategy?: 'first' | 'all' };
+  message?: ErrorObjectFieldOptions<'string' | 'stringify'>;
+  details?: ErrorObjectFieldOptions;
+  domain?: ErrorObjectFieldOptions<'string' | 'stringify'>;
+  fields?: { [K in F]?: ErrorObjectFieldOptions };
+};
+
+type ErrorObjectModeOf<T> = T extends { mode?: infer M } ? M : undefined;
+
+type ErrorObjectValueForMode<M> = 'raw' extends M ? ErrorObjectValue | null : string;
+
 /**
  * The {@link ErrorObjectBuildOptions} type contains all the options that can be used to customize the behavior of the {@link fromPayload()} method.
  * Options are self-explanatory and the code behind them is kept similar and very straightforward, by design.
  */
-export type ErrorObjectBuildOptions = {
+export type ErrorObjectBuildOptions<F extends string = string, O extends ErrorObjectFieldOptionsMap<F> = {}> = {
   /**
    * The {@link checkInputObjectForValues} option allows you to check if the input object contains specific values.
    */
@@ -98,10 +194,43 @@ export type ErrorObjectBuildOptions = {
     };
   };
 
+  /**
+   * The {@link guard} option allows you to check the input object using rules combined with `all`, `any` and `not`,
+   * e.g. `{ any: [{ path: 'status', gte: 400 }, { path: 'error', exists: true }] }`. It is checked after the
+   * `checkInputObjectFor*` options, and the input is not processed when it fails.
+   */
+  guard?: ErrorObjectGuard;
+
+  /**
+   * The {@link elementGuard} option checks every element of the errors array found using {@link pathToErrors}, with
+   * paths relative to the element, e.g. `{ path: 'level', equals: 'error' }`. Rejected elements don't produce errors
+   * and are added to the summary as skipped, with their index and the reason, unless {@link rejectedElements} is
+   * `'warnings'`.
+   */
+  elementGuard?: ErrorObjectGuard;
+
+  /**
+   * The {@link schema} option validates the input object using a Standard Schema v1 validator (e.g. a zod schema) or
+   * a plain JSON Schema object. It is checked after the {@link guard}, and the input is not processed when it fails,
+   * the issues found being listed in the `processingErrors`.
+   */
+  schema?: ErrorObjectSchema;
+
+  /**
+   * What to do with the elements rejected by {@link elementGuard}: `'skip'` (default) only lists them in the summary,
+   * `'warnings'` builds them like any other error and collects them in the `warnings` of the resulting error.
+   */
+  rejectedElements?: 'skip' | 'warnings';
+
   /**
    * All paths should be absolute, from the root of the input object, unless an array of errors is found.
    * When an array of errors is found, the paths are considered relative to the objects found in the errors array.
-   * "[" and "]" chars are not allowed. Use paths like "errors.0.code" instead of "errors[0].code".
+   * Paths support dot notation ("errors.0.code"), brackets ("errors[0].code", "errors[-1].code"), quoted keys
+   * ("data[\"error.code\"]", "data['error.code']") and escaped dots ("error\\.code").
+   * Wildcards ("*.error.code", "errors.*.message") and recursive descent ("..code") are also supported, the first
+   * match in breadth-first order wins and its concrete path is recorded in the {@link ErrorSummary}.
+   * Filters select array elements by field value ("errors[?severity=='error']"). When a `pathToErrors` path ends with a
+   * filter, only the matching elements are processed and the others are added to the summary as skipped.
    */
   pathToErrors: string[];
 
@@ -132,18 +261,172 @@ export type ErrorObjectBuildOptions = {
    */
   pathToDomain: string[];
 
+  /**
+   * Paths to extra fields, like `requestId`, `traceId` or `retryAfter`, keyed by the field name.
+   * Each field is resolved with the same first-match rules as the other paths, passed to the transform function
+   * and exposed on the resulting error as `fields`.
+   */
+  pathToFields?: Record<F, string[]>;
+
+  /**
+   * Per-field options, for the main fields and for the extra fields configured using {@link pathToFields}.
+   * For example, `{ details: { mode: 'raw' }, fields: { locations: { mode: 'raw' } } }` keeps the details and the
+   * `locations` field as the original structured values, instead of `JSON.stringify`-ing them, and
+   * `{ numberCode: { coerce: { numericStringToNumber: true } } }` accepts `"429"` as the number code `429`.
+   */
+  fieldOptions?: O;
+
+  /**
+   * Scores every key of the payload as a candidate for code, message, details and domain, using the best candidates
+   * for the fields not found using the paths. All candidates and their scores are listed in the {@link ErrorSummary},
+   * so they can later be turned into explicit `pathTo*` options. Useful when integrating an API with an unknown
+   * error shape.
+   */
+  autoDetect?: boolean;
+
+  /**
+   * Looks for nested errors arrays inside each error found using {@link pathToErrors}, e.g. batch APIs where every
+   * failed operation has its own `errors`. Nested errors are attached to their parent as `children`, instead of being
+   * flattened. Use `{ maxDepth }` to limit how deep to look, the default being 3 levels.
+   */
+  nestedErrors?: boolean | { maxDepth?: number };
+
+  /**
+   * The decoders tried in order for string payloads, until one of them returns an object. Built-in decoders are
+   * referenced by name, custom ones are objects with a `name` and a `decode` function. The default order is
+   * `['json', 'html', 'formUrlEncoded', 'text']`. The decoder used is recorded in the {@link ErrorSummary}.
+   */
+  stringDecoders?: (ErrorObjectStringDecoderName | ErrorObjectStringDecoder)[];
+
+  /**
+   * The maximum length of the messages created from text by the `html` and `text` string decoders, e.g. a long
+   * `text/plain` error page. Longer messages are cut and end with `…`.
+   */
+  maxMessageLength?: number;
+
   /**
    * The transform function is used to transform the properties found during the process of building the error object.
    * This is useful for transforming a the message based on the error code, the domain based on the error code, etc. allowing
    * the developer to customize the final error object created.
    */
-  transform?: (beforeTransform: ErrorObjectTransformState, inputObject: any) => ErrorObjectTransformState;
+  transform?: (beforeTransform: ErrorObjectTransformState<F, O>, inputObject: any) => ErrorObjectTransformState<F, O>;
+};
+
+/**
+ * The {@link ErrorObjectGuard} type contains a rule of the {@link ErrorObjectBuildOptions.guard} option, or rules
+ * combined using `all` (every rule passes), `any` (at least one rule passes) or `not` (the rule fails).
+ */
+export type ErrorObjectGuard =
+  | ErrorObjectGuardRule
+  | { all: ErrorObjectGuard[] }
+  | { any: ErrorObjectGuard[] }
+  | { not: ErrorObjectGuard };
+
+/**
+ * The {@link ErrorObjectGuardRule} type checks the value found at `path`, passing when every operator used passes:
+ * - `exists` checks that the path is present, even if the value is `null`, `0`, `''` or `false`
+ * - `equals` and `in` compare using strict equality
+ * - `matches` tests strings and numbers against a regular expression
+ * - `gte` and `lte` compare numbers, e.g. `{ path: 'status', gte: 400 }`
+ * - `type` compares the `typeof` the value, and `isArray` checks if the value is an array
+ * - `length` checks the length of arrays and strings, exactly or using `gte` and `lte`
+ */
+export type ErrorObjectGuardRule = {
+  path: string;
+  exists?: boolean;
+  equals?: ErrorObjectGuardPrimitive;
+  in?: ErrorObjectGuardPrimitive[];
+  matches?: string | RegExp;
+  gte?: number;
+  lte?: number;
+  type?: 'string' | 'number' | 'boolean' | 'object';
+  isArray?: boolean;
+  length?: number | { gte?: number; lte?: number };
 };
 
-type PathValueAndTransform<V> = {
+export type ErrorObjectGuardPrimitive = string | number | boolean | null;
+
+/**
+ * The {@link ErrorObjectSchema} type contains a schema of the {@link ErrorObjectBuildOptions.schema} option: any
+ * Standard Schema v1 validator (zod, valibot, arktype, ...) or a plain JSON Schema object.
+ */
+export type ErrorObjectSchema = ErrorObjectStandardSchema | ErrorObjectJsonSchema;
+
+/**
+ * The {@link ErrorObjectStandardSchema} type contains the parts of the Standard Schema v1 interface used to validate
+ * the input (see https://standardschema.dev). Only synchronous validation is supported.
+ */
+export type ErrorObjectStandardSchema = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => ErrorObjectStandardSchemaResult | Promise<ErrorObjectStandardSchemaResult>;
+  };
+};
+
+export type ErrorObjectStandardSchemaResult =
+  | { readonly value: unknown; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+      }>;
+    };
+
+/**
+ * The {@link ErrorObjectJsonSchema} type contains a JSON Schema, checked by a small built-in validator supporting
+ * `type`, `enum`, `const`, `properties`, `required`, `additionalProperties`, `items`, `minItems`, `maxItems`,
+ * `minLength`, `maxLength`, `pattern`, `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum`, `allOf`, `anyOf`,
+ * `oneOf` and `not`. Other keywords, like `$ref` or `format`, are ignored.
+ */
+export type ErrorObjectJsonSchema = {
+  type?: ErrorObjectJsonSchemaType | ErrorObjectJsonSchemaType[];
+  enum?: any[];
+  const?: any;
+  properties?: Record<string, ErrorObjectJsonSchema | boolean>;
+  required?: string[];
+  additionalProperties?: ErrorObjectJsonSchema | boolean;
+  items?: ErrorObjectJsonSchema | boolean | (ErrorObjectJsonSchema | boolean)[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  allOf?: (ErrorObjectJsonSchema | boolean)[];
+  anyOf?: (ErrorObjectJsonSchema | boolean)[];
+  oneOf?: (ErrorObjectJsonSchema | boolean)[];
+  not?: ErrorObjectJsonSchema | boolean;
+  [keyword: string]: any;
+};
+
+export type ErrorObjectJsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The {@link ErrorObjectSchemaIssue} type contains an issue reported by the {@link ErrorObjectBuildOptions.schema}
+ * option, with the path of the value, e.g. `errors[0].code`, when the issue is not about the whole input.
+ */
+export type ErrorObjectSchemaIssue = {
+  message: string;
+  path?: string;
+};
+
+/**
+ * The {@link PathValueAndTransform} type contains the path, the value found and the value after the transformation, for a
+ * single field of an {@link ErrorSummary}.
+ */
+export type PathValueAndTransform<V> = {
   path: string | undefined;
   beforeTransform: V | undefined;
   value: V | undefined;
+  coercion?: ErrorObjectCoercionRecord;
+  /**
+   * The values joined together when the field uses the `join` strategy.
+   */
+  joined?: { path: string; value: V; coercion?: ErrorObjectCoercionRecord }[];
 };
 
 /**
@@ -154,15 +437,111 @@ export type ErrorSummary = {
   didDetectErrorsArray?: boolean;
   input: NonNullable<Record<string, any>>;
   path?: string;
+  /**
+   * The reason an element of the errors array was skipped, e.g. when it did not match a filter like
+   * `errors[?severity=='error']`. Skipped elements don't produce errors.
+   */
+  skipped?: string;
+  /**
+   * The reason an element of the errors array was rejected by the {@link ErrorObjectBuildOptions.elementGuard} option
+   * and routed to `warnings`, see {@link ErrorObjectBuildOptions.rejectedElements}.
+   */
+  warning?: string;
+  /**
+   * The index of the element in the errors array, for the elements rejected by the
+   * {@link ErrorObjectBuildOptions.elementGuard} option.
+   */
+  index?: number;
+  /**
+   * The candidates found by the {@link ErrorObjectBuildOptions.autoDetect} option.
+   */
+  autoDetect?: ErrorObjectAutoDetectReport;
+  /**
+   * How a native error (`Error`, Node.js system error, `DOMException`, `AggregateError`) was mapped, e.g.
+   * `SystemError Error: code from "code", numberCode from "errno", message from "message", domain from "syscall", ...`.
+   */
+  nativeError?: {
+    name: string;
+    kind: ErrorObjectNativeErrorKind;
+    explanation: string;
+  };
+  /**
+   * How a string payload was decoded, see {@link ErrorObjectBuildOptions.stringDecoders}.
+   */
+  stringDecoding?: ErrorObjectStringDecoding;
   value: {
     code?: PathValueAndTransform<string>;
     numberCode?: PathValueAndTransform<number>;
     message?: PathValueAndTransform<string>;
-    details?: PathValueAndTransform<string>;
+    details?: PathValueAndTransform<ErrorObjectValue>;
     domain?: PathValueAndTransform<string>;
+    fields?: Record<string, PathValueAndTransform<ErrorObjectValue | null>>;
   };
 };
 
+/**
+ * The {@link ErrorObjectNativeErrorKind} type contains the kinds of native errors handled by {@link ErrorObjectFromPayload}.
+ */
+export type ErrorObjectNativeErrorKind = 'Error' | 'SystemError' | 'DOMException' | 'AggregateError';
+
+/**
+ * The {@link ErrorObjectStringDecoderName} type contains the names of the built-in string decoders:
+ * - `json` parses JSON, ignoring the text after the first complete object or array, e.g. a debug trailer
+ * - `html` uses the `<title>` or `<h1>` of an HTML page as message, and a leading status like `502` as number code
+ * - `formUrlEncoded` parses `application/x-www-form-urlencoded` bodies, e.g. `error=invalid_grant&error_description=...`
+ * - `xml` parses XML documents into a tree without namespace prefixes, attributes as `@name` and mixed text as `#text`,
+ *   e.g. `Envelope.Body.Fault.faultcode`, not used by default
+ * - `text` uses the whole string as message, with the `unknown` code
+ */
+export type ErrorObjectStringDecoderName = 'json' | 'html' | 'formUrlEncoded' | 'xml' | 'text';
+
+/**
+ * The {@link ErrorObjectStringDecoder} type contains a custom string decoder, returning the object to parse or
+ * `undefined` when the string is not in its format.
+ */
+export type ErrorObjectStringDecoder = {
+  name: string;
+  decode: (input: string) => Record<string, any> | undefined;
+};
+
+/**
+ * The {@link ErrorObjectStringDecoding} type contains the decoder used for a string payload and the decoders tried
+ * before it, together with the changes made to the string while decoding it.
+ */
+export type ErrorObjectStringDecoding = {
+  decoder: string;
+  rejected: string[];
+  strippedBom?: boolean;
+  /**
+   * The beginning of the text ignored after the JSON value.
+   */
+  ignoredTrailingText?: string;
+  /**
+   * The length of the message before it was cut to {@link ErrorObjectBuildOptions.maxMessageLength}.
+   */
+  truncatedMessageLength?: number;
+};
+
+/**
+ * The {@link ErrorObjectAutoDetectCandidate} type contains a path found by the {@link ErrorObjectBuildOptions.autoDetect}
+ * option and its score, from 0 to 1. The candidate used for the field, if any, is marked as `picked`.
+ */
+export type ErrorObjectAutoDetectCandidate = {
+  path: string;
+  score: number;
+  picked?: boolean;
+};
+
+/**
+ * The {@link ErrorObjectAutoDetectReport} type contains the best candidates for each field, highest score first.
+ */
+export type ErrorObjectAutoDetectReport = {
+  code?: ErrorObjectAutoDetectCandidate[];
+  message?: ErrorObjectAutoDetectCandidate[];
+  details?: ErrorObjectAutoDetectCandidate[];
+  domain?: ErrorObjectAutoDetectCandidate[];
+};
+
 /**
  * The {@link ErrorObjectErrorResult} type contains all the possible error results that can be returned by the {@link fromPayload()} method.
  * The error results are used to identify the type of error that occurred during the process of building the error object.
@@ -180,6 +559,14 @@ export type ErrorObjectErrorResult =
   | 'checkInputObjectForTypesValueIsArrayFailed'
   | 'checkInputObjectForKeysIsNotAnObject'
   | 'checkInputObjectForKeysFailed'
+  | 'guardIsInvalid'
+  | 'guardFailed'
+  | 'elementGuardIsInvalid'
+  | 'elementGuardRejectedAllElements'
+  | 'rejectedElementsIsInvalid'
+  | 'schemaIsInvalid'
+  | 'schemaIsAsync'
+  | 'schemaFailed'
   | 'pathToErrorsIsNotAnArray'
   | 'pathToErrorsValuesAreNotStrings'
   | 'pathToCodeIsInvalid'
@@ -197,6 +584,22 @@ export type ErrorObjectErrorResult =
   | 'pathToDomainIsInvalid'
   | 'pathToDomainIsNotAnArray'
   | 'pathToDomainValuesAreNotStrings'
+  | 'pathToFieldsIsNotAnObject'
+  | 'pathToFieldsValuesAreNotArrays'
+  | 'pathToFieldsValuesAreNotStrings'
+  | 'fieldOptionsIsNotAnObject'
+  | 'fieldOptionsModeIsInvalid'
+  | 'fieldOptionsCoerceIsNotAnObject'
+  | 'fieldOptionsStrategyIsInvalid'
+  | 'fieldOptionsSeparatorIsNotAString'
+  | 'profilesIsEmpty'
+  | 'autoDetectIsNotABoolean'
+  | 'nestedErrorsIsInvalid'
+  | 'stringDecodersIsNotAnArray'
+  | 'stringDecoderIsInvalid'
+  | 'stringDecodersFailed'
+  | 'maxMessageLengthIsInvalid'
+  | 'profileIsInvalid'
   | 'transformIsNotAFunction'
   | 'transformResultIsNotAValidObject'
   | 'transformCodeResultIsNotString'
@@ -205,6 +608,8 @@ export type ErrorObjectErrorResult =
   | 'transformMessageResultIsNotString'
   | 'transformDetailsResultIsNotString'
   | 'transformDomainResultIsNotString'
+  | 'transformFieldsResultIsNotAnObject'
+  | 'transformFieldResultIsNotString'
   | 'buildSummaryIsNullish'
   | 'buildSummaryIsNotAnObject'
   | 'generalBuildSummariesFromObjectError'
@@ -216,8 +621,71 @@ export type ErrorObjectErrorResult =
 /**
  * The {@link ErrorObjectProcessingError} type contains the error result and the error summary.
  * It provides all the information needed to identify and troubleshoot the error that occurred during the process of building the error object.
+ * The `explanation` describes what went wrong, e.g. `Expected "status" to be >= 400, found 200`, and for failed checks
+ * the `path`, the `expected` value and a preview of the `actual` value found are included too.
  */
 export type ErrorObjectProcessingError = {
   errorCode: ErrorObjectErrorResult;
+  kind: ErrorObjectProcessingErrorKind;
+  explanation: string;
+  path?: string;
+  expected?: any;
+  actual?: string;
+  /**
+   * The issues found by the {@link ErrorObjectBuildOptions.schema} option.
+   */
+  issues?: ErrorObjectSchemaIssue[];
   summary?: ErrorSummary;
 };
+
+/**
+ * The {@link ErrorObjectProcessingErrorKind} type contains the step of the process that failed: invalid `options`,
+ * a failed check (`checkInputObjectForValues`, `checkInputObjectForTypes`, `checkInputObjectForKeys`, `guard`,
+ * `schema`), an invalid `input`, an invalid `transform` result, a `summary` without code or message, or `profiles`
+ * that all failed.
+ */
+export type ErrorObjectProcessingErrorKind =
+  | 'options'
+  | 'checkInputObjectForValues'
+  | 'checkInputObjectForTypes'
+  | 'checkInputObjectForKeys'
+  | 'guard'
+  | 'schema'
+  | 'input'
+  | 'transform'
+  | 'summary'
+  | 'profiles';
+
+/**
+ * The {@link ErrorObjectResponse} type contains the parts of a WHATWG `Response` (e.g. from `fetch()`) used by
+ * `ErrorObjectFromPayload.fromResponse()`.
+ */
+export type ErrorObjectResponse = {
+  status: number;
+  statusText: string;
+  ok?: boolean;
+  url?: string;
+  redirected?: boolean;
+  headers?: { forEach: (callback: (value: string, key: string) => void) => void };
+  text: () => Promise<string>;
+};
+
+/**
+ * The {@link ErrorObjectProfile} type contains a named set of options, tried in order with other profiles until one of
+ * them creates a valid error, e.g. one profile for each backend an app talks to.
+ */
+export type ErrorObjectProfile<F extends string = string, O extends ErrorObjectFieldOptionsMap<F> = {}> = Partial<
+  ErrorObjectBuildOptions<F, O>
+> & {
+  name: string;
+};
+
+/**
+ * The {@link ErrorObjectRejectedProfile} type contains the processing errors of a profile that did not create a valid
+ * error, kept in `raw.rejectedProfiles` for debugging.
+ */
+export type ErrorObjectRejectedProfile = {
+  name: string | undefined;
+  processingErrors: ErrorObjectProcessingError[];
+  summary?: (ErrorSummary | ErrorObjectErrorResult)[];
+};
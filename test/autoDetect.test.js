@@ -0,0 +1,47 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+const payload = {
+  result: 'failure',
+  failure: {
+    errorCode: 'CARD_DECLINED',
+    errorDescription: 'The card was declined by the bank.',
+    category: 'payments',
+    context: { attempt: 2 },
+  },
+};
+
+test('is disabled by default', () => {
+  assert.equal(new ErrorObjectFromPayload(payload, {}).isFallback(), true);
+});
+
+test('picks the best candidate for each field and reports the scores', () => {
+  const error = new ErrorObjectFromPayload(payload, { autoDetect: true });
+  assert.equal(error.code, 'CARD_DECLINED');
+  assert.equal(error.message, 'The card was declined by the bank.');
+  assert.equal(error.domain, 'payments');
+  assert.equal(error.details, '{"attempt":2}');
+  const report = error.raw.summary[0].autoDetect;
+  assert.deepEqual(report.code[0], { path: 'failure.errorCode', score: 0.83, picked: true });
+  assert.equal(report.message[1].picked, undefined);
+});
+
+test('uses the configured paths before the candidates', () => {
+  const error = new ErrorObjectFromPayload(payload, { autoDetect: true, pathToCode: ['result'] });
+  assert.equal(error.code, 'failure');
+  assert.equal(error.message, 'The card was declined by the bank.');
+});
+
+test('converts the numeric codes it picks to strings', () => {
+  const error = new ErrorObjectFromPayload(
+    { failure: { errorCode: 1234, description: 'Declined' } },
+    { autoDetect: true },
+  );
+  assert.equal(error.code, '1234');
+});
+
+test('reports values that are not booleans', () => {
+  const error = new ErrorObjectFromPayload(payload, { autoDetect: 'yes' });
+  assert.equal(error.raw.processingErrors[0].errorCode, 'autoDetectIsNotABoolean');
+});
@@ -0,0 +1,44 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+test('uses found values only when they have the expected type', () => {
+  const error = new ErrorObjectFromPayload(
+    { code: 404, status: '429', message: 'm' },
+    { pathToNumberCode: ['status'] },
+  );
+  assert.equal(error.isFallback(), true);
+});
+
+test('converts values using the enabled coercions and records them', () => {
+  const error = new ErrorObjectFromPayload(
+    { code: 404, status: '429', message: '  ', text: ' Too many requests ' },
+    {
+      pathToNumberCode: ['status'],
+      pathToMessage: ['message', 'text'],
+      fieldOptions: {
+        code: { coerce: { primitiveToString: true } },
+        numberCode: { coerce: { numericStringToNumber: true } },
+        message: { coerce: { trim: true, emptyAsMissing: true } },
+      },
+    },
+  );
+  assert.equal(error.code, '404');
+  assert.equal(error.numberCode, 429);
+  assert.equal(error.message, 'Too many requests');
+  assert.deepEqual(error.raw.summary[0].value.numberCode.coercion, {
+    applied: ['numericStringToNumber'],
+    originalType: 'string',
+    originalValue: '429',
+    value: 429,
+  });
+  assert.deepEqual(error.raw.summary[0].value.message.coercion.applied, ['trim']);
+});
+
+test('reports coerce values that are not objects', () => {
+  const error = new ErrorObjectFromPayload(
+    { code: 'c', message: 'm', x: 1 },
+    { fieldOptions: { code: { coerce: true } } },
+  );
+  assert.equal(error.raw.processingErrors[0].errorCode, 'fieldOptionsCoerceIsNotAnObject');
+});
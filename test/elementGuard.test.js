@@ -0,0 +1,50 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+const payload = {
+  errors: [
+    { level: 'warning', code: 'w1', message: 'Deprecated' },
+    { level: 'error', code: 'e1', message: 'Broken' },
+    { level: 'error', code: 'e2', message: 'Broken again' },
+  ],
+};
+const elementGuard = { path: 'level', equals: 'error' };
+
+test('skips the rejected elements with the reason in the summary', () => {
+  const error = new ErrorObjectFromPayload(payload, { elementGuard });
+  assert.equal(error.code, 'e1');
+  assert.deepEqual(
+    error.nextErrors.map(({ code }) => code),
+    ['e2'],
+  );
+  assert.equal(error.warnings, undefined);
+  const [skipped] = error.raw.summary.filter((summary) => summary.skipped !== undefined);
+  assert.equal(skipped.index, 0);
+  assert.equal(skipped.skipped, 'Element guard failed: Expected "level" to equal "error", found "warning"');
+});
+
+test('builds the rejected elements as warnings', () => {
+  const error = new ErrorObjectFromPayload(payload, { elementGuard, rejectedElements: 'warnings' });
+  assert.equal(error.code, 'e1');
+  assert.deepEqual(
+    error.warnings.map(({ code }) => code),
+    ['w1'],
+  );
+  assert.equal(error.toJSON().warnings[0].code, 'w1');
+});
+
+test('reports errors arrays without an accepted element', () => {
+  for (const rejectedElements of ['skip', 'warnings']) {
+    const error = new ErrorObjectFromPayload({ errors: [payload.errors[0]] }, { elementGuard, rejectedElements });
+    assert.equal(error.isFallback(), true);
+    assert.equal(error.raw.processingErrors[0].errorCode, 'elementGuardRejectedAllElements');
+  }
+});
+
+test('reports invalid options', () => {
+  const guard = new ErrorObjectFromPayload(payload, { elementGuard: { path: 'level', bad: 1 } });
+  assert.equal(guard.raw.processingErrors[0].errorCode, 'elementGuardIsInvalid');
+  const rejected = new ErrorObjectFromPayload(payload, { rejectedElements: 'x' });
+  assert.equal(rejected.raw.processingErrors[0].errorCode, 'rejectedElementsIsInvalid');
+});
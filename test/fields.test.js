@@ -0,0 +1,63 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+test('extracts extra fields using the first path that matches', () => {
+  const error = new ErrorObjectFromPayload(
+    { error: { code: 'c', message: 'm' }, requestId: 'r1', meta: { traceId: 't1' } },
+    { pathToFields: { requestId: ['meta.requestId', 'requestId'], traceId: ['meta.traceId'], missing: ['nope'] } },
+  );
+  assert.deepEqual(error.fields, { requestId: 'r1', traceId: 't1' });
+  assert.equal(error.raw.summary[0].value.fields.requestId.path, 'requestId');
+});
+
+test('passes the fields to transform', () => {
+  const error = new ErrorObjectFromPayload(
+    { error: { code: 'c', message: 'm' }, requestId: 'r1' },
+    {
+      pathToFields: { requestId: ['requestId'] },
+      transform: (beforeTransform) => ({
+        ...beforeTransform,
+        fields: { requestId: `request-${beforeTransform.fields.requestId}` },
+      }),
+    },
+  );
+  assert.deepEqual(error.fields, { requestId: 'request-r1' });
+});
+
+test('keeps numbers and booleans as strings in the stringify mode', () => {
+  const error = new ErrorObjectFromPayload(
+    { error: { code: 'c', message: 'm' }, retryAfter: 120, retryable: true },
+    { pathToFields: { retryAfter: ['retryAfter'], retryable: ['retryable'] } },
+  );
+  assert.deepEqual(error.fields, { retryAfter: '120', retryable: 'true' });
+});
+
+test('extracts fields from payloads that already have a code and a message', () => {
+  const error = new ErrorObjectFromPayload(
+    { code: 'c', message: 'm', requestId: 'r1' },
+    { pathToFields: { requestId: ['requestId'] } },
+  );
+  assert.equal(error.code, 'c');
+  assert.deepEqual(error.fields, { requestId: 'r1' });
+});
+
+test('does not copy the fields of a payload without options', () => {
+  const error = new ErrorObjectFromPayload({ code: 'c', message: 'm', fields: { requestId: 'r1' } });
+  assert.equal(error.code, 'c');
+  assert.equal(error.fields, undefined);
+});
+
+test('extracts the fields of every error', () => {
+  const error = new ErrorObjectFromPayload(
+    {
+      errors: [
+        { code: 'a', message: 'A', requestId: 'r1' },
+        { code: 'b', message: 'B', requestId: 'r2' },
+      ],
+    },
+    { pathToFields: { requestId: ['requestId'] } },
+  );
+  assert.deepEqual(error.fields, { requestId: 'r1' });
+  assert.deepEqual(error.nextErrors[0].fields, { requestId: 'r2' });
+});
@@ -0,0 +1,38 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+const payload = {
+  errors: [
+    { severity: 'warning', code: 'W1', message: 'Deprecated', status: 200 },
+    { severity: 'error', code: 'E1', message: 'Failed', status: 500, retryable: true },
+    { severity: 'error', code: 'E2', message: 'Invalid', status: 400 },
+  ],
+};
+
+test('selects the error elements matching a filter and reports the others as skipped', () => {
+  const error = new ErrorObjectFromPayload(payload, { pathToErrors: ["errors[?severity=='error']"] });
+  assert.equal(error.code, 'E1');
+  assert.deepEqual(
+    error.nextErrors.map((nextError) => nextError.code),
+    ['E2'],
+  );
+  const skipped = error.raw.summary.filter((summary) => summary.skipped !== undefined);
+  assert.equal(skipped.length, 1);
+  assert.equal(skipped[0].path, 'errors[0]');
+});
+
+test('compares numbers and checks that a value exists', () => {
+  assert.equal(new ErrorObjectFromPayload(payload, { pathToErrors: ['errors[?status>=500]'] }).code, 'E1');
+  const retryable = new ErrorObjectFromPayload(payload, { pathToErrors: ['errors[?retryable]'] });
+  assert.equal(retryable.code, 'E1');
+  assert.equal(retryable.nextErrors, undefined);
+});
+
+test('reads a value from the first matching element', () => {
+  const error = new ErrorObjectFromPayload(
+    { code: 'c', details: [{ type: 'Help' }, { type: 'ErrorInfo', reason: 'QUOTA' }] },
+    { pathToMessage: ["details[?type=='ErrorInfo'].reason"] },
+  );
+  assert.equal(error.message, 'QUOTA');
+});
@@ -0,0 +1,75 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+// Uses the WHATWG `Response` built into Node.js 18+
+const jsonResponse = (body, init) =>
+  new Response(JSON.stringify(body), { ...init, headers: { 'content-type': 'application/json', ...init?.headers } });
+
+test('reads the code and message from a JSON body, and the number code from the status', async () => {
+  const error = await ErrorObjectFromPayload.fromResponse(
+    jsonResponse({ code: 'not_found', message: 'User not found' }, { status: 404 }),
+  );
+  assert.equal(error.code, 'not_found');
+  assert.equal(error.message, 'User not found');
+  assert.equal(error.numberCode, 404);
+  assert.equal(error.raw.response.status, 404);
+});
+
+test('exposes the status and the headers as path variables', async () => {
+  const error = await ErrorObjectFromPayload.fromResponse(
+    jsonResponse(
+      { error: { code: 'rate_limited', message: 'Slow down' } },
+      { status: 429, headers: { 'Retry-After': '120' } },
+    ),
+    { pathToFields: { retryAfter: ['$headers.retry-after'], status: ['$response.status'] } },
+  );
+  assert.deepEqual(error.fields, { retryAfter: '120', status: '429' });
+});
+
+test('builds the message from the status when there is no message and no status text', async () => {
+  const empty = await ErrorObjectFromPayload.fromResponse(new Response(null, { status: 500 }));
+  assert.equal(empty.isFallback(), false);
+  assert.equal(empty.code, '500');
+  assert.equal(empty.numberCode, 500);
+  assert.equal(empty.message, 'HTTP 500');
+
+  const unknownBody = await ErrorObjectFromPayload.fromResponse(jsonResponse({ foo: 1 }, { status: 502 }));
+  assert.equal(unknownBody.numberCode, 502);
+  assert.equal(unknownBody.message, 'HTTP 502');
+});
+
+test('uses the status text as message when there is one', async () => {
+  const error = await ErrorObjectFromPayload.fromResponse(
+    new Response('', { status: 503, statusText: 'Service Unavailable' }),
+  );
+  assert.equal(error.message, 'Service Unavailable');
+  assert.equal(error.numberCode, 503);
+});
+
+test('decodes text bodies', async () => {
+  const error = await ErrorObjectFromPayload.fromResponse(new Response('Upstream timed out', { status: 504 }));
+  assert.equal(error.message, 'Upstream timed out');
+  assert.equal(error.numberCode, 504);
+});
+
+test('keeps the fields and the structured details of the next errors', async () => {
+  const errors = [
+    { code: 'a', message: 'A', numberCode: 1, details: { line: 1 }, meta: { requestId: 'r1' } },
+    { code: 'b', message: 'B', numberCode: 2, details: { line: 2 }, meta: { requestId: 'r2' } },
+  ];
+  const options = { pathToFields: { requestId: ['meta.requestId'] }, fieldOptions: { details: { mode: 'raw' } } };
+  const expected = new ErrorObjectFromPayload({ errors }, options);
+  const error = await ErrorObjectFromPayload.fromResponse(jsonResponse({ errors }, { status: 400 }), options);
+
+  assert.equal(error.nextErrors?.length, 1);
+  for (const [actual, wanted] of [
+    [error, expected],
+    [error.nextErrors[0], expected.nextErrors[0]],
+  ]) {
+    assert.equal(actual.code, wanted.code);
+    assert.equal(actual.numberCode, wanted.numberCode);
+    assert.deepEqual(actual.fields, wanted.fields);
+    assert.deepEqual(actual.structuredDetails, wanted.structuredDetails);
+  }
+});
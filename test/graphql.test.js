@@ -0,0 +1,36 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload, GRAPHQL_BUILD_OPTIONS } = require('../dist');
+
+test('uses the extensions code and keeps the locations', () => {
+  const error = new ErrorObjectFromPayload(
+    {
+      errors: [
+        {
+          message: 'Cannot query field "username" on type "User"',
+          locations: [{ line: 2, column: 3 }],
+          extensions: { code: 'GRAPHQL_VALIDATION_FAILED' },
+        },
+      ],
+      data: null,
+    },
+    GRAPHQL_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'GRAPHQL_VALIDATION_FAILED');
+  assert.equal(error.message, 'Cannot query field "username" on type "User"');
+  assert.deepEqual(error.fields.locations, [{ line: 2, column: 3 }]);
+});
+
+test('marks errors returned with partial data', () => {
+  const error = new ErrorObjectFromPayload(
+    {
+      errors: [{ message: 'Name could not be fetched.', path: ['hero', 'heroFriends', 1, 'name'] }],
+      data: { hero: { name: 'R2-D2', heroFriends: [{ name: 'Luke' }, null] } },
+    },
+    GRAPHQL_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'unknown');
+  assert.deepEqual(error.fields.path, ['hero', 'heroFriends', 1, 'name']);
+  assert.equal(error.fields.isPartial, true);
+  assert.equal(error.raw.summary[0].value.fields.isPartial.path, '$root.data');
+});
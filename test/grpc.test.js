@@ -0,0 +1,67 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload, GRPC_STATUS_BUILD_OPTIONS } = require('../dist');
+
+test('names the status code and decodes the typed details', () => {
+  const error = new ErrorObjectFromPayload(
+    {
+      code: 5,
+      message: 'Book not found',
+      details: [
+        {
+          '@type': 'type.googleapis.com/google.rpc.ErrorInfo',
+          'reason': 'BOOK_NOT_FOUND',
+          'domain': 'library.example.com',
+          'metadata': { bookId: '42' },
+        },
+        {
+          '@type': 'type.googleapis.com/google.rpc.LocalizedMessage',
+          'locale': 'fr-FR',
+          'message': 'Livre introuvable',
+        },
+      ],
+    },
+    GRPC_STATUS_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'NOT_FOUND');
+  assert.equal(error.numberCode, 5);
+  assert.equal(error.domain, 'library.example.com');
+  assert.deepEqual(error.fields, {
+    reason: 'BOOK_NOT_FOUND',
+    metadata: { bookId: '42' },
+    localizedMessage: 'Livre introuvable',
+    locale: 'fr-FR',
+  });
+});
+
+test('parses the Google JSON error envelope', () => {
+  const error = new ErrorObjectFromPayload(
+    {
+      error: {
+        code: 400,
+        status: 'INVALID_ARGUMENT',
+        message: 'Invalid field',
+        details: [
+          {
+            '@type': 'type.googleapis.com/google.rpc.BadRequest',
+            'fieldViolations': [{ field: 'email', description: 'Invalid email' }],
+          },
+          { '@type': 'type.googleapis.com/google.rpc.RetryInfo', 'retryDelay': '30s' },
+        ],
+      },
+    },
+    GRPC_STATUS_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'INVALID_ARGUMENT');
+  assert.equal(error.numberCode, 400);
+  assert.deepEqual(error.fields, {
+    fieldViolations: [{ field: 'email', description: 'Invalid email' }],
+    retryDelay: '30s',
+  });
+});
+
+test('uses unknown status codes as they are', () => {
+  const error = new ErrorObjectFromPayload({ code: 99, message: 'Unknown status' }, GRPC_STATUS_BUILD_OPTIONS);
+  assert.equal(error.code, '99');
+  assert.equal(error.numberCode, 99);
+});
@@ -0,0 +1,63 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+const payload = {
+  status: 404,
+  error: { code: 'not_found', message: 'Not found', retries: 0, tags: ['a', 'b'] },
+  data: null,
+};
+
+const errorCodeFor = (guard, options) => {
+  const error = new ErrorObjectFromPayload(payload, { guard, ...options });
+  return error.raw.processingErrors[0]?.errorCode;
+};
+
+test('passes when every rule passes', () => {
+  assert.equal(errorCodeFor({ path: 'status', gte: 400 }), undefined);
+  assert.equal(errorCodeFor({ path: 'error.retries', exists: true, equals: 0 }), undefined);
+  assert.equal(errorCodeFor({ path: 'error.tags', isArray: true, length: { gte: 2, lte: 2 } }), undefined);
+  assert.equal(errorCodeFor({ path: 'error.message', type: 'string', length: 9 }), undefined);
+});
+
+test('combines rules with all, any and not', () => {
+  assert.equal(
+    errorCodeFor({
+      any: [
+        { path: 'status', gte: 500 },
+        { path: 'error.code', in: ['not_found', 'gone'] },
+      ],
+    }),
+    undefined,
+  );
+  assert.equal(
+    errorCodeFor({ all: [{ path: 'error.code', matches: '^not_' }, { not: { path: 'data', exists: false } }] }),
+    undefined,
+  );
+  assert.equal(errorCodeFor({ not: { path: 'status', equals: 404 } }), 'guardFailed');
+});
+
+test('checks decoded strings', () => {
+  const error = new ErrorObjectFromPayload(JSON.stringify(payload), {
+    guard: { path: 'status', gte: 400 },
+    pathToCode: ['error.code'],
+    pathToMessage: ['error.message'],
+  });
+  assert.equal(error.code, 'not_found');
+});
+
+test('reports invalid rules', () => {
+  assert.equal(errorCodeFor({ path: 'status', gte: 'x' }), 'guardIsInvalid');
+  assert.equal(errorCodeFor({ path: 'status', eq: 1 }), 'guardIsInvalid');
+  assert.equal(errorCodeFor({ all: [{ path: 'status', matches: '(' }] }), 'guardIsInvalid');
+});
+
+test('keeps the checkInputObjectFor* options working', () => {
+  assert.equal(
+    errorCodeFor(
+      { path: 'status', exists: true },
+      { checkInputObjectForValues: { status: { value: 500, exists: true } } },
+    ),
+    'checkInputObjectForValuesFailed',
+  );
+});
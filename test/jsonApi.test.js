@@ -0,0 +1,43 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createJsonApiBuildOptions, ErrorObjectFromPayload, JSON_API_BUILD_OPTIONS } = require('../dist');
+
+const document = {
+  errors: [
+    {
+      id: '1',
+      status: '422',
+      code: 'invalid-email',
+      title: 'Invalid Attribute',
+      detail: 'Email must contain an @.',
+      source: { pointer: '/data/attributes/email' },
+      meta: { hint: 'user@example.com' },
+    },
+    { status: '404', title: 'Not found', source: { pointer: '/data/relationships/first~1author' } },
+    { status: '400', title: 'Bad include', source: { parameter: 'include' } },
+  ],
+};
+
+test('parses every error object with its source', () => {
+  const error = new ErrorObjectFromPayload(document, JSON_API_BUILD_OPTIONS);
+  assert.equal(error.code, 'invalid-email');
+  assert.equal(error.numberCode, 422);
+  assert.equal(error.message, 'Email must contain an @.');
+  assert.equal(error.details, '{"hint":"user@example.com"}');
+  assert.deepEqual(error.fields, {
+    field: 'email',
+    pointer: '/data/attributes/email',
+    title: 'Invalid Attribute',
+    detail: 'Email must contain an @.',
+    id: '1',
+  });
+  const [relationship, parameter] = error.nextErrors;
+  assert.equal(relationship.code, '404');
+  assert.equal(relationship.fields.field, 'first/author');
+  assert.equal(parameter.fields.parameter, 'include');
+});
+
+test('uses the configured member as message', () => {
+  const error = new ErrorObjectFromPayload(document, createJsonApiBuildOptions({ message: 'title' }));
+  assert.equal(error.message, 'Invalid Attribute');
+});
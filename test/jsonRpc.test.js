@@ -0,0 +1,47 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload, JSON_RPC_BUILD_OPTIONS } = require('../dist');
+
+test('names the reserved codes and keeps the data and the id', () => {
+  const error = new ErrorObjectFromPayload(
+    { jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'Invalid params', data: { param: 'x' } } },
+    JSON_RPC_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'INVALID_PARAMS');
+  assert.equal(error.numberCode, -32602);
+  assert.deepEqual(error.structuredDetails, { param: 'x' });
+  assert.deepEqual(error.fields, { id: 1 });
+});
+
+test('skips the successful responses of a batch', () => {
+  const batch = [
+    { jsonrpc: '2.0', result: 7, id: '1' },
+    { jsonrpc: '2.0', error: { code: -32601, message: 'Method not found' }, id: '5' },
+    { jsonrpc: '2.0', error: { code: -32001, message: 'Server busy' }, id: '6' },
+    { jsonrpc: '2.0', error: { code: 42, message: 'Application error' }, id: 9 },
+  ];
+  const error = new ErrorObjectFromPayload(JSON.stringify(batch), JSON_RPC_BUILD_OPTIONS);
+  assert.deepEqual(
+    [error, ...error.nextErrors].map(({ code, fields }) => [code, fields.id]),
+    [
+      ['METHOD_NOT_FOUND', '5'],
+      ['SERVER_ERROR', '6'],
+      ['42', 9],
+    ],
+  );
+  assert.equal(error.raw.summary.filter(({ skipped }) => skipped !== undefined).length, 1);
+});
+
+test('keeps the null id of errors that could not be correlated', () => {
+  const error = new ErrorObjectFromPayload(
+    { jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null },
+    JSON_RPC_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'PARSE_ERROR');
+  assert.deepEqual(error.fields, { id: null });
+});
+
+test('returns a fallback error for successful responses', () => {
+  const error = new ErrorObjectFromPayload({ jsonrpc: '2.0', result: 1, id: 1 }, JSON_RPC_BUILD_OPTIONS);
+  assert.equal(error.isFallback(), true);
+});
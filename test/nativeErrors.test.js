@@ -0,0 +1,53 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+test('uses the name, message and stack of native errors', () => {
+  const error = new ErrorObjectFromPayload(new TypeError('x is not a function'));
+  assert.equal(error.code, 'TypeError');
+  assert.equal(error.message, 'x is not a function');
+  assert.equal(error.isFallback(), false);
+  assert.match(error.raw.stack, /^TypeError: x is not a function/);
+  assert.equal(error.raw.summary[0].nativeError.kind, 'Error');
+});
+
+test('uses the code, errno and syscall of Node.js system errors', () => {
+  const systemError = Object.assign(new Error("ENOENT: no such file or directory, open '/missing'"), {
+    code: 'ENOENT',
+    errno: -2,
+    syscall: 'open',
+  });
+  const error = new ErrorObjectFromPayload(systemError);
+  assert.equal(error.code, 'ENOENT');
+  assert.equal(error.numberCode, -2);
+  assert.equal(error.domain, 'open');
+  assert.equal(error.raw.summary[0].nativeError.kind, 'SystemError');
+});
+
+test('follows the cause chain', () => {
+  const error = new ErrorObjectFromPayload(new Error('Outer', { cause: new Error('Inner', { cause: 'root' }) }));
+  assert.equal(error.cause.message, 'Inner');
+  assert.equal(error.cause.raw.cause, 'root');
+  assert.equal(error.cause.cause, undefined);
+  assert.equal(error.toJSON().cause.message, 'Inner');
+});
+
+test('stops at cyclic causes', () => {
+  const cyclic = new Error('Cyclic');
+  cyclic.cause = cyclic;
+  assert.equal(new ErrorObjectFromPayload(cyclic).cause, undefined);
+});
+
+test('links the errors of an AggregateError as nextErrors', () => {
+  const error = new ErrorObjectFromPayload(
+    new AggregateError([new RangeError('Out of range'), { code: 'c', message: 'Plain' }], 'Many failed'),
+  );
+  assert.equal(error.code, 'AggregateError');
+  assert.deepEqual(
+    error.nextErrors.map(({ code, message }) => [code, message]),
+    [
+      ['RangeError', 'Out of range'],
+      ['c', 'Plain'],
+    ],
+  );
+});
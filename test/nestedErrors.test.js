@@ -0,0 +1,51 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createErrorObjectParser, ErrorObjectFromPayload } = require('../dist');
+
+const payload = {
+  errors: [
+    {
+      code: 'batch/op-failed',
+      message: 'Operation 1 failed',
+      errors: [
+        { code: 'v/email', message: 'Email invalid' },
+        {
+          code: 'v/name',
+          message: 'Name missing',
+          errors: [{ code: 'deep', message: 'Deep one', errors: [{ code: 'deeper', message: 'Deeper one' }] }],
+        },
+      ],
+    },
+    { code: 'batch/op-failed', message: 'Operation 2 failed' },
+  ],
+};
+
+test('keeps nested errors flat by default', () => {
+  const error = new ErrorObjectFromPayload(payload);
+  assert.equal(error.children, undefined);
+  assert.equal(error.nextErrors.length, 1);
+});
+
+test('builds a tree of children up to the maximum depth', () => {
+  const error = new ErrorObjectFromPayload(payload, { nestedErrors: { maxDepth: 2 } });
+  assert.deepEqual(
+    error.children.map(({ code }) => code),
+    ['v/email', 'v/name'],
+  );
+  assert.equal(error.children[1].children[0].code, 'deep');
+  assert.equal(error.children[1].children[0].children, undefined);
+  assert.equal(error.nextErrors[0].children, undefined);
+});
+
+test('includes the children in toJSON()', () => {
+  const error = createErrorObjectParser({ nestedErrors: true }).parse(payload);
+  assert.deepEqual(
+    error.toJSON().children.map(({ code }) => code),
+    ['v/email', 'v/name'],
+  );
+});
+
+test('reports invalid values', () => {
+  const error = new ErrorObjectFromPayload(payload, { nestedErrors: { maxDepth: -1 } });
+  assert.equal(error.raw.processingErrors[0].errorCode, 'nestedErrorsIsInvalid');
+});
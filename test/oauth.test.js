@@ -0,0 +1,40 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload, OAUTH_BUILD_OPTIONS } = require('../dist');
+
+const parse = (payload) => new ErrorObjectFromPayload(payload, OAUTH_BUILD_OPTIONS);
+
+test('parses JSON error responses', () => {
+  const error = parse({
+    error: 'invalid_grant',
+    error_description: 'Refresh token expired',
+    error_uri: 'https://example.com/docs',
+  });
+  assert.equal(error.code, 'invalid_grant');
+  assert.equal(error.message, 'Refresh token expired');
+  assert.deepEqual(error.fields, { errorUri: 'https://example.com/docs' });
+});
+
+test('uses the default message of registered codes and the code of the others', () => {
+  assert.equal(parse(JSON.stringify({ error: 'invalid_client' })).message, 'The client could not be authenticated.');
+  assert.equal(parse('error=custom_error').message, 'custom_error');
+});
+
+test('decodes the query and the fragment of redirect URLs', () => {
+  const query = parse('https://app.example.com/cb?error=access_denied&error_description=User+denied+access&state=xyz');
+  assert.equal(query.code, 'access_denied');
+  assert.equal(query.message, 'User denied access');
+  assert.deepEqual(query.fields, { state: 'xyz' });
+  assert.equal(query.raw.summary[0].stringDecoding.decoder, 'redirectUrl');
+  const fragment = parse('https://app.example.com/cb#error=login_required&state=YWJjZA==');
+  assert.equal(fragment.code, 'login_required');
+  assert.deepEqual(fragment.fields, { state: 'YWJjZA==' });
+});
+
+test('decodes WWW-Authenticate Bearer header values', () => {
+  const error = parse('Bearer realm="example", error="insufficient_scope", scope="read write"');
+  assert.equal(error.code, 'insufficient_scope');
+  assert.equal(error.message, 'The access token does not have the required scope.');
+  assert.deepEqual(error.fields, { realm: 'example', scope: 'read write' });
+  assert.equal(parse('Bearer realm="example"').raw.processingErrors[0].errorCode, 'stringDecodersFailed');
+});
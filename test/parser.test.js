@@ -0,0 +1,30 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createErrorObjectParser, ErrorObjectFromPayload } = require('../dist');
+
+test('parses payloads like the constructor, reusing the compiled options', () => {
+  const options = { pathToCode: ['error.id'], pathToMessage: ['error.text'] };
+  const parser = createErrorObjectParser(options);
+  const payload = { error: { id: 'E1', text: 'Failed' } };
+  const parsed = parser.parse(payload);
+  const constructed = new ErrorObjectFromPayload(payload, options);
+  assert.equal(parsed instanceof ErrorObjectFromPayload, true);
+  assert.equal(parsed.code, constructed.code);
+  assert.equal(parsed.message, constructed.message);
+  assert.equal(parser.parse({ error: { id: 'E2', text: 'Again' } }).code, 'E2');
+});
+
+test('exposes the options merged with the defaults', () => {
+  const parser = createErrorObjectParser({ pathToCode: ['id'] });
+  assert.deepEqual(parser.options.pathToCode, ['id']);
+  assert.equal(Array.isArray(parser.options.pathToMessage), true);
+  assert.deepEqual(parser.processingErrors, []);
+});
+
+test('reports invalid options at creation and in every parsed error', () => {
+  const parser = createErrorObjectParser({ pathToCode: 'code' });
+  assert.equal(parser.processingErrors[0].errorCode, 'pathToCodeIsNotAnArray');
+  const error = parser.parse({ error: { code: 'c', message: 'm' } });
+  assert.equal(error.isFallback(), true);
+  assert.equal(error.raw.processingErrors[0].errorCode, 'pathToCodeIsNotAnArray');
+});
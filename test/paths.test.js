@@ -0,0 +1,41 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+const parse = (payload, pathToCode) =>
+  new ErrorObjectFromPayload(payload, { pathToErrors: [], pathToCode, pathToMessage: ['message'] });
+
+test('reads bracket indices at any depth', () => {
+  const error = parse({ errors: [{ items: [{}, { code: 'E1' }] }], message: 'M' }, ['errors[0].items[1].code']);
+  assert.equal(error.code, 'E1');
+});
+
+test('reads negative indices from the end of the array', () => {
+  const error = parse({ errors: [{ code: 'first' }, { code: 'last' }], message: 'M' }, ['errors[-1].code']);
+  assert.equal(error.code, 'last');
+});
+
+test('reads quoted keys and escaped dots', () => {
+  const payload = { data: { 'error.code': 'dotted' }, codes: { 404: 'not_found' }, message: 'M' };
+  assert.equal(parse(payload, ['data["error.code"]']).code, 'dotted');
+  assert.equal(parse(payload, ["data['error.code']"]).code, 'dotted');
+  assert.equal(parse(payload, ['data.error\\.code']).code, 'dotted');
+  assert.equal(parse(payload, ['codes["404"]']).code, 'not_found');
+});
+
+test('keeps reading dot notation with numeric indices', () => {
+  const error = parse({ errors: [{ code: 'E0' }], message: 'M' }, ['errors.0.code']);
+  assert.equal(error.code, 'E0');
+});
+
+test('uses the same grammar for the checkInputObjectFor* keys', () => {
+  const payload = { data: { 'error.code': 'dotted' }, error: { code: 'c', message: 'm' } };
+  const passing = new ErrorObjectFromPayload(payload, {
+    checkInputObjectForValues: { 'data["error.code"]': { value: 'dotted', exists: true } },
+  });
+  assert.equal(passing.isFallback(), false);
+  const failing = new ErrorObjectFromPayload(payload, {
+    checkInputObjectForValues: { 'data["error.code"]': { value: 'other', exists: true } },
+  });
+  assert.equal(failing.isFallback(), true);
+});
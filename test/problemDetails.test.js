@@ -0,0 +1,63 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload, PROBLEM_DETAILS_BUILD_OPTIONS } = require('../dist');
+
+test('parses problem details with extension members', () => {
+  const error = new ErrorObjectFromPayload(
+    {
+      type: 'https://example.com/probs/out-of-credit',
+      title: 'You do not have enough credit.',
+      detail: 'Your current balance is 30, but that costs 50.',
+      instance: '/account/12345/msgs/abc',
+      status: 403,
+      balance: 30,
+    },
+    PROBLEM_DETAILS_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'out-of-credit');
+  assert.equal(error.numberCode, 403);
+  assert.equal(error.message, 'Your current balance is 30, but that costs 50.');
+  assert.equal(error.domain, 'https://example.com/probs/out-of-credit');
+  assert.deepEqual(error.fields, {
+    title: 'You do not have enough credit.',
+    instance: '/account/12345/msgs/abc',
+    extensions: { balance: 30 },
+  });
+});
+
+test('uses the status and the title for about:blank and missing types', () => {
+  const blank = new ErrorObjectFromPayload(
+    JSON.stringify({ type: 'about:blank', title: 'Not Found', status: 404 }),
+    PROBLEM_DETAILS_BUILD_OPTIONS,
+  );
+  assert.equal(blank.code, '404');
+  assert.equal(blank.message, 'Not Found');
+  assert.equal(blank.domain, undefined);
+  const missing = new ErrorObjectFromPayload(
+    { title: 'Service Unavailable', status: 503 },
+    PROBLEM_DETAILS_BUILD_OPTIONS,
+  );
+  assert.equal(missing.code, '503');
+});
+
+test('creates an error for every item of the RFC 9457 errors array', () => {
+  const error = new ErrorObjectFromPayload(
+    {
+      type: 'https://example.net/validation-error',
+      title: 'Your request is not valid.',
+      status: 422,
+      errors: [
+        { detail: 'must be a positive integer', pointer: '#/age' },
+        { detail: "must be 'green', 'red' or 'blue'", pointer: '#/profile/color' },
+      ],
+    },
+    PROBLEM_DETAILS_BUILD_OPTIONS,
+  );
+  assert.deepEqual(
+    [error, ...error.nextErrors].map(({ code, message, fields }) => [code, message, fields.extensions.pointer]),
+    [
+      ['validation-error', 'must be a positive integer', '#/age'],
+      ['validation-error', "must be 'green', 'red' or 'blue'", '#/profile/color'],
+    ],
+  );
+});
@@ -0,0 +1,49 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+test('describes failed checks with the path, the expected and the actual value', () => {
+  const error = new ErrorObjectFromPayload(
+    { status: 200, error: { code: 'x', message: 'm' } },
+    { guard: { path: 'status', gte: 400 } },
+  );
+  assert.deepEqual(error.raw.processingErrors, [
+    {
+      errorCode: 'guardFailed',
+      kind: 'guard',
+      explanation: 'Expected "status" to be >= 400, found 200',
+      path: 'status',
+      expected: { gte: 400 },
+      actual: '200',
+    },
+  ]);
+});
+
+test('names the rule inside a failed not, which passed', () => {
+  const error = new ErrorObjectFromPayload(
+    { status: 404, error: { code: 'not_found', message: 'Not found' } },
+    { guard: { not: { path: 'status', equals: 404 } } },
+  );
+  const [processingError] = error.raw.processingErrors;
+  assert.equal(processingError.path, 'status');
+  assert.deepEqual(processingError.expected, { not: { path: 'status', equals: 404 } });
+  assert.equal(processingError.actual, '404');
+});
+
+test('describes failed checkInputObjectForValues options', () => {
+  const error = new ErrorObjectFromPayload(
+    { type: 'x' },
+    { checkInputObjectForValues: { type: { value: 'y', exists: true } } },
+  );
+  const [processingError] = error.raw.processingErrors;
+  assert.equal(processingError.kind, 'checkInputObjectForValues');
+  assert.equal(processingError.explanation, 'Expected "type" to equal "y", found "x"');
+});
+
+test('explains invalid options and errors without a code or a message', () => {
+  const invalid = new ErrorObjectFromPayload({ s: 1 }, { pathToCode: 5 });
+  assert.equal(invalid.raw.processingErrors[0].kind, 'options');
+  const unknown = new ErrorObjectFromPayload({ errors: [{ code: 'a' }] }, {});
+  assert.equal(unknown.raw.processingErrors[0].errorCode, 'unknownCodeOrMessage');
+  assert.equal(typeof unknown.raw.processingErrors[0].explanation, 'string');
+});
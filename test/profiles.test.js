@@ -0,0 +1,36 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createErrorObjectParser, ErrorObjectFromPayload } = require('../dist');
+
+const profiles = [
+  { name: 'graphql', pathToErrors: ['errors'], pathToCode: ['extensions.code'], pathToMessage: ['message'] },
+  { name: 'rest', pathToErrors: [], pathToCode: ['error.type'], pathToMessage: ['error.description'] },
+];
+
+test('uses the first profile that creates an error and lists the rejected ones', () => {
+  const error = new ErrorObjectFromPayload({ error: { type: 'invalid', description: 'Invalid input' } }, profiles);
+  assert.equal(error.code, 'invalid');
+  assert.equal(error.raw.profile, 'rest');
+  assert.deepEqual(
+    error.raw.rejectedProfiles.map(({ name }) => name),
+    ['graphql'],
+  );
+});
+
+test('returns a fallback error with the processing errors of every profile', () => {
+  const error = new ErrorObjectFromPayload({ unknown: true }, profiles);
+  assert.equal(error.isFallback(), true);
+  assert.equal(error.raw.rejectedProfiles.length, 2);
+});
+
+test('reports an empty list of profiles', () => {
+  const error = new ErrorObjectFromPayload({ code: 'c', message: 'm', x: 1 }, []);
+  assert.equal(error.raw.processingErrors[0].errorCode, 'profilesIsEmpty');
+});
+
+test('creates parsers from profiles', () => {
+  const parser = createErrorObjectParser(profiles);
+  const error = parser.parse({ errors: [{ message: 'Not found', extensions: { code: 'NOT_FOUND' } }] });
+  assert.equal(error.code, 'NOT_FOUND');
+  assert.equal(error.raw.profile, 'graphql');
+});
@@ -0,0 +1,79 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+const schema = {
+  type: 'object',
+  required: ['error'],
+  properties: {
+    status: { type: 'integer', minimum: 400 },
+    error: {
+      type: 'object',
+      required: ['code', 'message'],
+      properties: { code: { type: 'string', pattern: '^[A-Z_]+$' }, message: { type: 'string', minLength: 1 } },
+      additionalProperties: false,
+    },
+  },
+};
+
+test('parses inputs that match a JSON Schema', () => {
+  const error = new ErrorObjectFromPayload(
+    { status: 404, error: { code: 'NOT_FOUND', message: 'Not found' } },
+    { schema },
+  );
+  assert.equal(error.code, 'NOT_FOUND');
+});
+
+test('lists every issue of inputs that do not match', () => {
+  const error = new ErrorObjectFromPayload({ status: 200, error: { code: 'nf', message: '', extra: 1 } }, { schema });
+  const [processingError] = error.raw.processingErrors;
+  assert.equal(processingError.errorCode, 'schemaFailed');
+  assert.deepEqual(processingError.issues, [
+    { message: 'Expected >= 400, found 200', path: 'status' },
+    { message: 'Expected to match /^[A-Z_]+$/, found "nf"', path: 'error.code' },
+    { message: 'Expected at least 1 characters, found 0', path: 'error.message' },
+    { message: 'Unexpected property "extra"', path: 'error' },
+  ]);
+});
+
+test('validates decoded strings', () => {
+  const error = new ErrorObjectFromPayload(JSON.stringify({ error: { code: 'NOT_FOUND', message: 'Not found' } }), {
+    schema,
+  });
+  assert.equal(error.code, 'NOT_FOUND');
+});
+
+test('uses Standard Schema validators', () => {
+  const validator = {
+    '~standard': {
+      version: 1,
+      vendor: 'example',
+      validate: (value) =>
+        value.ok ? { value } : { issues: [{ message: 'Required', path: ['errors', 0, { key: 'code' }] }] },
+    },
+  };
+  const error = new ErrorObjectFromPayload({ code: 'x', message: 'X' }, { schema: validator });
+  assert.equal(error.raw.processingErrors[0].explanation, 'Schema (example) failed: errors[0].code: Required');
+});
+
+test('reports validators that throw or are async', () => {
+  const throwing = {
+    '~standard': {
+      version: 1,
+      vendor: 'example',
+      validate: () => {
+        throw new Error('Boom');
+      },
+    },
+  };
+  const thrown = new ErrorObjectFromPayload({ error: { code: 'x', message: 'X' } }, { schema: throwing });
+  assert.equal(thrown.raw.processingErrors[0].explanation, 'Schema (example) failed: The validator threw: Boom');
+  const async = { '~standard': { version: 1, vendor: 'example', validate: async () => ({ issues: [] }) } };
+  const result = new ErrorObjectFromPayload({ error: { code: 'x', message: 'X' } }, { schema: async });
+  assert.equal(result.isFallback(), true);
+});
+
+test('reports invalid schemas', () => {
+  const error = new ErrorObjectFromPayload({ error: { code: 'x', message: 'X' } }, { schema: { type: 'bogus' } });
+  assert.equal(error.raw.processingErrors[0].errorCode, 'schemaIsInvalid');
+});
@@ -0,0 +1,72 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload, SOAP_FAULT_BUILD_OPTIONS } = require('../dist');
+
+test('parses SOAP 1.1 faults', () => {
+  const error = new ErrorObjectFromPayload(
+    `<?xml version="1.0" encoding="UTF-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Body>
+    <soap:Fault>
+      <faultcode>soap:Server</faultcode>
+      <faultstring>Server was unable to process request. &gt; Bad input.</faultstring>
+      <faultactor>http://example.com/service</faultactor>
+      <detail><e:error xmlns:e="urn:example"><e:code>42</e:code><![CDATA[<raw> & text]]></e:error></detail>
+    </soap:Fault>
+  </soap:Body>
+</soap:Envelope>`,
+    SOAP_FAULT_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'Server');
+  assert.equal(error.message, 'Server was unable to process request. > Bad input.');
+  assert.equal(error.details, '{"error":{"code":"42","#text":"<raw> & text"}}');
+  assert.deepEqual(error.fields, { actor: 'http://example.com/service' });
+  assert.equal(error.raw.summary[0].stringDecoding.decoder, 'xml');
+});
+
+test('parses SOAP 1.2 faults', () => {
+  const error = new ErrorObjectFromPayload(
+    `<env:Envelope xmlns:env="http://www.w3.org/2003/05/soap-envelope" xmlns:m="http://www.example.org/timeouts">
+ <env:Body>
+  <env:Fault>
+   <env:Code>
+     <env:Value>env:Sender</env:Value>
+     <env:Subcode><env:Value>m:MessageTimeout</env:Value></env:Subcode>
+   </env:Code>
+   <env:Reason>
+     <env:Text xml:lang="en">Sender Timeout</env:Text>
+     <env:Text xml:lang="de">Sender Zeitüberschreitung</env:Text>
+   </env:Reason>
+   <env:Detail><m:MaxTime>P5M</m:MaxTime></env:Detail>
+  </env:Fault>
+ </env:Body>
+</env:Envelope>`,
+    SOAP_FAULT_BUILD_OPTIONS,
+  );
+  assert.equal(error.code, 'Sender');
+  assert.equal(error.message, 'Sender Timeout');
+  assert.equal(error.details, '{"MaxTime":"P5M"}');
+  assert.deepEqual(error.fields, { subcode: 'm:MessageTimeout' });
+});
+
+test('decodes plain XML and its attributes with the xml decoder', () => {
+  const error = new ErrorObjectFromPayload('<error><code>E1</code><message>Broken &amp; bad</message></error>', {
+    stringDecoders: ['json', 'xml', 'text'],
+  });
+  assert.equal(error.code, 'E1');
+  assert.equal(error.message, 'Broken & bad');
+  const attributes = new ErrorObjectFromPayload('<error code="E2" message="Attribute message"/>', {
+    stringDecoders: ['xml'],
+    pathToCode: ['error.@code'],
+    pathToMessage: ['error.@message'],
+  });
+  assert.equal(attributes.code, 'E2');
+  assert.equal(attributes.message, 'Attribute message');
+});
+
+test('rejects malformed XML', () => {
+  const error = new ErrorObjectFromPayload('<error><code>E1</message></error>', {
+    stringDecoders: ['json', 'xml', 'text'],
+  });
+  assert.equal(error.raw.summary[0].stringDecoding.decoder, 'text');
+});
@@ -0,0 +1,47 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+const payload = {
+  status: 'error',
+  message: 'Validation failed',
+  data: { username: 'Username is required', email: 'Email is required' },
+};
+
+test('keeps the first value found by default', () => {
+  const error = new ErrorObjectFromPayload(payload, { pathToCode: ['message'], pathToMessage: ['data.*'] });
+  assert.equal(error.message, 'Username is required');
+  assert.equal(error.nextErrors, undefined);
+});
+
+test('creates an error for every value found with the all strategy', () => {
+  const error = new ErrorObjectFromPayload(payload, {
+    pathToCode: ['message'],
+    pathToMessage: ['data.*'],
+    fieldOptions: { message: { strategy: 'all' } },
+  });
+  assert.deepEqual(
+    [error, ...error.nextErrors].map(({ code, message }) => [code, message]),
+    [
+      ['Validation failed', 'Username is required'],
+      ['Validation failed', 'Email is required'],
+    ],
+  );
+});
+
+test('joins every value found with the join strategy', () => {
+  const error = new ErrorObjectFromPayload(payload, {
+    pathToCode: ['message'],
+    pathToMessage: ['data.*'],
+    fieldOptions: { message: { strategy: 'join', separator: ' / ' } },
+  });
+  assert.equal(error.message, 'Username is required / Email is required');
+  assert.equal(error.raw.summary[0].value.message.joined.length, 2);
+});
+
+test('reports the all strategy used for more than one field', () => {
+  const error = new ErrorObjectFromPayload(payload, {
+    fieldOptions: { code: { strategy: 'all' }, message: { strategy: 'all' } },
+  });
+  assert.equal(error.raw.processingErrors[0].errorCode, 'fieldOptionsStrategyIsInvalid');
+});
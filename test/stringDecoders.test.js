@@ -0,0 +1,57 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+test('uses the title of HTML error pages', () => {
+  const error = new ErrorObjectFromPayload(
+    '<!DOCTYPE html><html><head><title>502 Bad Gateway</title></head><body><h1>502 Bad Gateway</h1></body></html>',
+  );
+  assert.equal(error.code, '502');
+  assert.equal(error.numberCode, 502);
+  assert.equal(error.message, '502 Bad Gateway');
+  assert.deepEqual(error.raw.summary[0].stringDecoding, { decoder: 'html', rejected: ['json'] });
+});
+
+test('decodes form-encoded bodies', () => {
+  const error = new ErrorObjectFromPayload('error=invalid_grant&error_description=Bad+refresh%20token', {
+    pathToCode: ['error'],
+    pathToMessage: ['error_description'],
+  });
+  assert.equal(error.code, 'invalid_grant');
+  assert.equal(error.message, 'Bad refresh token');
+});
+
+test('strips the BOM and trailing text of JSON strings', () => {
+  const bom = new ErrorObjectFromPayload('﻿{"code":"x","message":"BOM"}');
+  assert.equal(bom.raw.summary[0].stringDecoding.strippedBom, true);
+  const trailing = new ErrorObjectFromPayload('{"code":"x","message":"Trailing"}<!-- debug -->');
+  assert.equal(trailing.message, 'Trailing');
+  assert.equal(trailing.raw.summary[0].stringDecoding.ignoredTrailingText, '<!-- debug -->');
+});
+
+test('uses plain text as the message, truncated to maxMessageLength', () => {
+  const error = new ErrorObjectFromPayload('Something went wrong in the backend', { maxMessageLength: 10 });
+  assert.equal(error.code, 'unknown');
+  assert.equal(error.message, 'Something…');
+  assert.equal(error.raw.summary[0].stringDecoding.truncatedMessageLength, 35);
+});
+
+test('uses custom decoders in order', () => {
+  const legacy = {
+    name: 'legacy',
+    decode: (input) => {
+      const match = /^ERR(\d+): (.*)$/.exec(input);
+      return match ? { code: `ERR${match[1]}`, message: match[2] } : undefined;
+    },
+  };
+  const error = new ErrorObjectFromPayload('ERR42: nope', { stringDecoders: [legacy, 'text'] });
+  assert.equal(error.code, 'ERR42');
+  assert.equal(error.message, 'nope');
+});
+
+test('reports strings that no decoder accepts and unknown decoders', () => {
+  const failed = new ErrorObjectFromPayload('plain', { stringDecoders: ['json'] });
+  assert.equal(failed.raw.processingErrors[0].errorCode, 'stringDecodersFailed');
+  const unknown = new ErrorObjectFromPayload('plain', { stringDecoders: ['nope'] });
+  assert.equal(unknown.raw.processingErrors[0].errorCode, 'stringDecoderIsInvalid');
+});
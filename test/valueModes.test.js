@@ -0,0 +1,46 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+const payload = {
+  error: { code: 'c', message: 'm' },
+  locations: [{ line: 2, column: 3 }],
+  extensions: { validation: { email: ['is invalid'] } },
+};
+
+test('stringifies objects and arrays by default', () => {
+  const error = new ErrorObjectFromPayload(payload, {
+    pathToDetails: ['locations'],
+    pathToFields: { validation: ['extensions.validation'] },
+  });
+  assert.equal(error.details, '[{"line":2,"column":3}]');
+  assert.equal(error.structuredDetails, undefined);
+  assert.deepEqual(error.fields, { validation: '{"email":["is invalid"]}' });
+});
+
+test('keeps structured values in the raw mode', () => {
+  const error = new ErrorObjectFromPayload(payload, {
+    pathToDetails: ['locations'],
+    pathToFields: { validation: ['extensions.validation'] },
+    fieldOptions: { details: { mode: 'raw' }, fields: { validation: { mode: 'raw' } } },
+  });
+  assert.deepEqual(error.structuredDetails, [{ line: 2, column: 3 }]);
+  assert.equal(error.details, '[{"line":2,"column":3}]');
+  assert.deepEqual(error.fields, { validation: { email: ['is invalid'] } });
+  assert.deepEqual(error.toJSON().details, [{ line: 2, column: 3 }]);
+});
+
+test('only accepts strings in the string mode, checking the next path', () => {
+  const error = new ErrorObjectFromPayload(
+    { ...payload, text: 'Plain details' },
+    { pathToDetails: ['locations', 'text'], fieldOptions: { details: { mode: 'string' } } },
+  );
+  assert.equal(error.details, 'Plain details');
+});
+
+test('reports modes that are unknown or raw for a string field', () => {
+  const unknown = new ErrorObjectFromPayload(payload, { fieldOptions: { details: { mode: 'json' } } });
+  assert.equal(unknown.raw.processingErrors[0].errorCode, 'fieldOptionsModeIsInvalid');
+  const rawCode = new ErrorObjectFromPayload(payload, { fieldOptions: { code: { mode: 'raw' } } });
+  assert.equal(rawCode.raw.processingErrors[0].errorCode, 'fieldOptionsModeIsInvalid');
+});
@@ -0,0 +1,37 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { ErrorObjectFromPayload } = require('../dist');
+
+test('matches any key with a wildcard and records the concrete path', () => {
+  const error = new ErrorObjectFromPayload(
+    { data: { result: { error: { code: 'E1', message: 'Failed' } } } },
+    { pathToCode: ['data.*.error.code'], pathToMessage: ['data.*.error.message'] },
+  );
+  assert.equal(error.code, 'E1');
+  assert.equal(error.raw.summary[0].value.code.path, 'data.result.error.code');
+});
+
+test('matches the elements of an array with a wildcard', () => {
+  const error = new ErrorObjectFromPayload(
+    { errors: [{ message: 'first' }, { message: 'second' }], code: 'c' },
+    { pathToErrors: [], pathToCode: ['code'], pathToMessage: ['errors.*.message'] },
+  );
+  assert.equal(error.message, 'first');
+});
+
+test('finds the shallowest key at any depth with recursive descent', () => {
+  const error = new ErrorObjectFromPayload(
+    { a: { b: { c: { code: 'deep' } } }, x: { code: 'shallow' }, message: 'M' },
+    { pathToCode: ['..code'], pathToMessage: ['message'] },
+  );
+  assert.equal(error.code, 'shallow');
+  assert.equal(error.raw.summary[0].value.code.path, 'x.code');
+});
+
+test('skips matches of the wrong type and keeps looking', () => {
+  const error = new ErrorObjectFromPayload(
+    { a: { code: 404 }, b: { code: 'not_found' }, message: 'M' },
+    { pathToCode: ['*.code'], pathToMessage: ['message'] },
+  );
+  assert.equal(error.code, 'not_found');
+});